@@ -1,57 +1,91 @@
-type JsonRecord = Record<string, unknown>;
-
-class HttpError extends Error {
-  status: number;
-  constructor(status: number, message: string) {
-    super(message);
-    this.status = status;
-  }
-}
-
-function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
-  return new Response(JSON.stringify(body), {
-    headers: { "content-type": "application/json" },
-    ...init,
-  });
-}
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  unlink,
+  writeFile,
+} from "node:fs/promises";
+import { connect } from "node:net";
+import { join } from "node:path";
+import {
+  ApiKeyStore,
+  assertGrantable,
+  canAccessId,
+  grantError,
+  randomToken,
+  requireAllIds,
+  requireScope,
+  serializeKey,
+  validateCreateKeyBody,
+  type Principal as KeyPrincipal,
+} from "./lib/api_keys.ts";
+import { AuditLog, auditFetch, parseAuditFilter } from "./lib/audit.ts";
+import {
+  parseDeliveriesQuery,
+  serializeWebhook,
+  validateCreateWebhookBody,
+  WebhookDispatcher,
+} from "./lib/webhooks.ts";
+import {
+  canonicalJson,
+  findHostConflicts,
+  hostsOverlap,
+  LB_POLICIES,
+  pathsOverlap,
+  planProxySync,
+  PROXY_OPTION_KEYS,
+  takeOverHosts,
+  type HeaderOps,
+  type HealthChecks,
+  type LoadBalancing,
+  type ProxyHeaders,
+  type ProxyOptions,
+  type ProxySpec,
+  type ProxyTimeouts,
+  type ProxyTransport,
+  type SyncAction,
+  type SyncPlanEntry,
+  type SyncProxyBody,
+  type TakenOver,
+  type TakeoverFilter,
+} from "./lib/caddy_routes.ts";
+import { HttpError, jsonResponse, readJson, textResponse } from "./lib/http.ts";
 
-function textResponse(body: string, init: ResponseInit = {}): Response {
-  return new Response(body, {
-    headers: { "content-type": "text/plain" },
-    ...init,
-  });
-}
+type JsonRecord = Record<string, unknown>;
 
 function parseUrl(req: Request): URL {
   return new URL(req.url);
 }
 
-function timingSafeEqual(a: string, b: string): boolean {
-  if (a.length !== b.length) return false;
-  let result = 0;
-  for (let i = 0; i < a.length; i++) {
-    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
-  }
-  return result === 0;
-}
+// Permissions of an API key. "*" grants every scope.
+const API_SCOPES = [
+  "proxies:read",
+  "proxies:write",
+  "snapshots:read",
+  "snapshots:restore",
+  "audit:read",
+  "webhooks:admin",
+  "keys:admin",
+] as const;
 
-function requireAuth(req: Request, apiSecret: string) {
-  const auth =
-    req.headers.get("authorization") || req.headers.get("Authorization");
-  if (!auth || !auth.startsWith("Bearer "))
-    throw new HttpError(401, "missing bearer token");
-  const token = auth.slice("Bearer ".length).trim();
-  if (!timingSafeEqual(token, apiSecret))
-    throw new HttpError(403, "invalid token");
-}
+type ApiScope = (typeof API_SCOPES)[number];
 
-async function readJson(req: Request): Promise<any> {
-  return req.json().catch(() => {
-    throw new HttpError(400, "invalid JSON body");
-  });
+type Principal = KeyPrincipal<ApiScope>;
+
+function requireIdAccess(principal: Principal, id: string | undefined) {
+  if (canAccessId(principal, id)) return;
+  throw new HttpError(
+    403,
+    id === undefined
+      ? `key is limited to ids starting with ${principal.idPrefixes!.join(
+          ", "
+        )}; provide an id`
+      : `key is not allowed to access proxy ${id}`
+  );
 }
 
-type CreateProxyBody = {
+type CreateProxyBody = ProxyOptions & {
   id?: string;
   server: string;
   hosts: string[] | string;
@@ -77,32 +111,1045 @@ function validateCreateProxyBody(body: any): CreateProxyBody {
   if (typeof body.server !== "string" || !body.server)
     throw new HttpError(400, "server must be non-empty string");
   out.server = body.server;
+  out.hosts = validateHosts(body.hosts);
+  out.upstreams = validateUpstreams(body.upstreams);
+  if (body.terminal !== undefined) out.terminal = Boolean(body.terminal);
+  for (const key of PROXY_OPTION_KEYS) {
+    if (body[key] !== undefined) setProxyOption(out, key, body[key]);
+  }
 
-  if (Array.isArray(body.hosts)) {
-    if (!body.hosts.every((h: unknown) => typeof h === "string" && h))
+  return out;
+}
+
+function validateHosts(hosts: any): string[] {
+  if (Array.isArray(hosts)) {
+    if (!hosts.every((h: unknown) => typeof h === "string" && h))
       throw new HttpError(400, "hosts must be non-empty string[]");
-    out.hosts = body.hosts;
-  } else if (typeof body.hosts === "string" && body.hosts) {
-    out.hosts = [body.hosts];
-  } else {
-    throw new HttpError(400, "hosts must be string or string[]");
+    return hosts;
   }
+  if (typeof hosts === "string" && hosts) return [hosts];
+  throw new HttpError(400, "hosts must be string or string[]");
+}
 
-  if (!Array.isArray(body.upstreams) || body.upstreams.length === 0)
+function validateUpstreams(upstreams: any): string[] {
+  if (!Array.isArray(upstreams) || upstreams.length === 0)
     throw new HttpError(400, "upstreams must be non-empty string[]");
-  if (!body.upstreams.every((u: any) => typeof u === "string" && u))
+  if (!upstreams.every((u: any) => typeof u === "string" && u))
     throw new HttpError(400, "upstreams must be non-empty string[]");
-  out.upstreams = body.upstreams;
+  return upstreams;
+}
+
+function setProxyOption(
+  out: ProxyOptions,
+  key: (typeof PROXY_OPTION_KEYS)[number],
+  value: any
+) {
+  switch (key) {
+    case "paths":
+      out.paths = validateStrings(value, "paths");
+      break;
+    case "loadBalancing":
+      out.loadBalancing = validateLoadBalancing(value);
+      break;
+    case "healthChecks":
+      out.healthChecks = validateHealthChecks(value);
+      break;
+    case "transport":
+      out.transport = validateTransport(value);
+      break;
+    case "timeouts":
+      out.timeouts = validateTimeouts(value);
+      break;
+    case "headers":
+      out.headers = validateHeaders(value);
+      break;
+  }
+}
+
+// Caddy duration strings, e.g. 500ms, 10s or 1m30s
+const DURATION_RE = /^(\d+(\.\d+)?(ns|us|µs|ms|s|m|h))+$/;
+
+function validateObject(value: any, field: string, keys: string[]): any {
+  if (!value || typeof value !== "object" || Array.isArray(value))
+    throw new HttpError(400, `${field} must be object`);
+  const unknown = Object.keys(value).find((k) => !keys.includes(k));
+  if (unknown) throw new HttpError(400, `${field}.${unknown} is not supported`);
+  return value;
+}
+
+function validateDuration(value: any, field: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || !DURATION_RE.test(value))
+    throw new HttpError(400, `${field} must be a duration like 10s`);
+  return value;
+}
+
+function validateInt(
+  value: any,
+  field: string,
+  min: number,
+  max = Number.MAX_SAFE_INTEGER
+): number | undefined {
+  if (value === undefined) return undefined;
+  if (!Number.isInteger(value) || value < min || value > max)
+    throw new HttpError(400, `${field} must be integer ${min}-${max}`);
+  return value;
+}
+
+function validateStrings(value: any, field: string): string[] {
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    !value.every((v: unknown) => typeof v === "string" && v)
+  )
+    throw new HttpError(400, `${field} must be non-empty string[]`);
+  return value;
+}
 
+function validateLoadBalancing(value: any): LoadBalancing {
+  const lb = validateObject(value, "loadBalancing", [
+    "policy",
+    "retries",
+    "tryDuration",
+    "tryInterval",
+  ]);
+  if (lb.policy !== undefined && !LB_POLICIES.includes(lb.policy))
+    throw new HttpError(
+      400,
+      `loadBalancing.policy must be one of ${LB_POLICIES.join(", ")}`
+    );
+  return {
+    policy: lb.policy,
+    retries: validateInt(lb.retries, "loadBalancing.retries", 0),
+    tryDuration: validateDuration(lb.tryDuration, "loadBalancing.tryDuration"),
+    tryInterval: validateDuration(lb.tryInterval, "loadBalancing.tryInterval"),
+  };
+}
+
+function validateHealthChecks(value: any): HealthChecks {
+  const hc = validateObject(value, "healthChecks", ["active", "passive"]);
+  const out: HealthChecks = {};
+  if (hc.active !== undefined) {
+    const a = validateObject(hc.active, "healthChecks.active", [
+      "uri",
+      "port",
+      "interval",
+      "timeout",
+      "expectStatus",
+    ]);
+    if (a.uri !== undefined && (typeof a.uri !== "string" || !a.uri))
+      throw new HttpError(400, "healthChecks.active.uri must be string");
+    out.active = {
+      uri: a.uri,
+      port: validateInt(a.port, "healthChecks.active.port", 1, 65535),
+      interval: validateDuration(a.interval, "healthChecks.active.interval"),
+      timeout: validateDuration(a.timeout, "healthChecks.active.timeout"),
+      expectStatus: validateInt(
+        a.expectStatus,
+        "healthChecks.active.expectStatus",
+        100,
+        599
+      ),
+    };
+  }
+  if (hc.passive !== undefined) {
+    const p = validateObject(hc.passive, "healthChecks.passive", [
+      "failDuration",
+      "maxFails",
+      "unhealthyStatus",
+      "unhealthyLatency",
+    ]);
+    if (
+      p.unhealthyStatus !== undefined &&
+      (!Array.isArray(p.unhealthyStatus) ||
+        !p.unhealthyStatus.every(
+          (s: unknown) => Number.isInteger(s) && (s as number) >= 100
+        ))
+    )
+      throw new HttpError(
+        400,
+        "healthChecks.passive.unhealthyStatus must be status code[]"
+      );
+    out.passive = {
+      failDuration: validateDuration(
+        p.failDuration,
+        "healthChecks.passive.failDuration"
+      ),
+      maxFails: validateInt(p.maxFails, "healthChecks.passive.maxFails", 1),
+      unhealthyStatus: p.unhealthyStatus,
+      unhealthyLatency: validateDuration(
+        p.unhealthyLatency,
+        "healthChecks.passive.unhealthyLatency"
+      ),
+    };
+  }
+  return out;
+}
+
+function validateTransport(value: any): ProxyTransport {
+  const t = validateObject(value, "transport", ["tls", "versions"]);
+  const out: ProxyTransport = {};
+  if (t.tls !== undefined) {
+    const tls = validateObject(t.tls, "transport.tls", [
+      "serverName",
+      "insecureSkipVerify",
+      "caFiles",
+    ]);
+    if (tls.serverName !== undefined && typeof tls.serverName !== "string")
+      throw new HttpError(400, "transport.tls.serverName must be string");
+    out.tls = {
+      serverName: tls.serverName,
+      insecureSkipVerify:
+        tls.insecureSkipVerify !== undefined
+          ? Boolean(tls.insecureSkipVerify)
+          : undefined,
+      caFiles:
+        tls.caFiles !== undefined
+          ? validateStrings(tls.caFiles, "transport.tls.caFiles")
+          : undefined,
+    };
+  }
+  if (t.versions !== undefined)
+    out.versions = validateStrings(t.versions, "transport.versions");
+  return out;
+}
+
+function validateTimeouts(value: any): ProxyTimeouts {
+  const t = validateObject(value, "timeouts", [
+    "dial",
+    "read",
+    "write",
+    "responseHeader",
+  ]);
+  return {
+    dial: validateDuration(t.dial, "timeouts.dial"),
+    read: validateDuration(t.read, "timeouts.read"),
+    write: validateDuration(t.write, "timeouts.write"),
+    responseHeader: validateDuration(
+      t.responseHeader,
+      "timeouts.responseHeader"
+    ),
+  };
+}
+
+function validateHeaders(value: any): ProxyHeaders {
+  const h = validateObject(value, "headers", ["request", "response"]);
+  const out: ProxyHeaders = {};
+  for (const side of ["request", "response"] as const) {
+    if (h[side] === undefined) continue;
+    const field = `headers.${side}`;
+    const ops = validateObject(h[side], field, ["set", "add", "delete"]);
+    out[side] = {
+      set: validateHeaderMap(ops.set, `${field}.set`),
+      add: validateHeaderMap(ops.add, `${field}.add`),
+      delete:
+        ops.delete !== undefined
+          ? validateStrings(ops.delete, `${field}.delete`)
+          : undefined,
+    };
+  }
+  return out;
+}
+
+// Header values may be given as a string or string[]; Caddy wants arrays
+function validateHeaderMap(
+  value: any,
+  field: string
+): Record<string, string[]> | undefined {
+  if (value === undefined) return undefined;
+  if (!value || typeof value !== "object" || Array.isArray(value))
+    throw new HttpError(400, `${field} must be object`);
+  const out: Record<string, string[]> = {};
+  for (const [name, v] of Object.entries(value)) {
+    const values = Array.isArray(v) ? v : [v];
+    if (!values.every((s) => typeof s === "string"))
+      throw new HttpError(400, `${field}.${name} must be string or string[]`);
+    out[name] = values as string[];
+  }
+  return out;
+}
+
+// Routes created without an explicit id get this prefix. Sync only touches
+// routes whose @id starts with its prefix, which must extend this one, so
+// routes outside it, like tunnel routes, are never removed
+const MANAGED_ID_PREFIX = "rp-";
+
+function validateSyncProxyBody(body: any): SyncProxyBody {
+  if (!body || typeof body !== "object")
+    throw new HttpError(400, "body must be object");
+  if (typeof body.server !== "string" || !body.server)
+    throw new HttpError(400, "server must be non-empty string");
+  let prefix = MANAGED_ID_PREFIX;
+  if (body.prefix !== undefined) {
+    if (
+      typeof body.prefix !== "string" ||
+      !body.prefix.startsWith(MANAGED_ID_PREFIX)
+    )
+      throw new HttpError(
+        400,
+        `prefix must be a string starting with '${MANAGED_ID_PREFIX}'`
+      );
+    prefix = body.prefix;
+  }
+  if (!Array.isArray(body.routes))
+    throw new HttpError(400, "routes must be array");
+
+  const seen = new Set<string>();
+  const routes: SyncProxyBody["routes"] = [];
+  body.routes.forEach((r: any, i: number) => {
+    if (!r || typeof r !== "object")
+      throw new HttpError(400, `routes[${i}] must be object`);
+    let input: CreateProxyBody;
+    try {
+      input = validateCreateProxyBody({ ...r, server: body.server });
+    } catch (e) {
+      if (e instanceof HttpError)
+        throw new HttpError(e.status, `routes[${i}]: ${e.message}`);
+      throw e;
+    }
+    const { id, server, hosts, terminal, ...options } = input;
+    if (!id || !id.startsWith(prefix))
+      throw new HttpError(400, `routes[${i}].id must start with '${prefix}'`);
+    if (seen.has(id)) throw new HttpError(400, `duplicate route id ${id}`);
+    seen.add(id);
+    const route = {
+      ...options,
+      id,
+      hosts: Array.isArray(hosts) ? hosts : [hosts],
+      terminal: terminal ?? true,
+    };
+    // Desired routes must not shadow each other
+    const clash = routes.find(
+      (other) =>
+        pathsOverlap(route.paths, other.paths) &&
+        other.hosts.some((h) => route.hosts.some((x) => hostsOverlap(h, x)))
+    );
+    if (clash)
+      throw new HttpError(
+        400,
+        `routes[${i}] overlaps the hosts of route ${clash.id}`
+      );
+    routes.push(route);
+  });
+  return { server: body.server, prefix, routes };
+}
+
+// Options are set to null in a PATCH to remove them
+type UpdateProxyBody = {
+  server?: string;
+  hosts?: string[];
+  upstreams?: string[];
+  terminal?: boolean;
+} & { [K in keyof ProxyOptions]?: ProxyOptions[K] | null };
+
+// PUT replaces the whole proxy spec; PATCH changes the given fields.
+// id and server identify the route and cannot change.
+function validateUpdateProxyBody(
+  body: any,
+  id: string,
+  partial: boolean
+): UpdateProxyBody {
+  if (!body || typeof body !== "object")
+    throw new HttpError(400, "body must be object");
+  if (body.id !== undefined && body.id !== id)
+    throw new HttpError(400, "id cannot be changed");
+  const out: UpdateProxyBody = {};
+  if (body.server !== undefined) {
+    if (typeof body.server !== "string" || !body.server)
+      throw new HttpError(400, "server must be non-empty string");
+    out.server = body.server;
+  }
+  if (!partial || body.hosts !== undefined)
+    out.hosts = validateHosts(body.hosts);
+  if (!partial || body.upstreams !== undefined)
+    out.upstreams = validateUpstreams(body.upstreams);
   if (body.terminal !== undefined) out.terminal = Boolean(body.terminal);
+  for (const key of PROXY_OPTION_KEYS) {
+    if (body[key] === null && partial) out[key] = null;
+    else if (body[key] !== undefined && body[key] !== null)
+      setProxyOption(out as ProxyOptions, key, body[key]);
+  }
 
+  if (partial && Object.keys(out).every((k) => k === "server"))
+    throw new HttpError(400, "provide at least one field to change");
   return out;
 }
 
+// Apply an update to the current spec of a route. PUT starts from scratch,
+// so options it leaves out are removed.
+function mergeProxySpec(
+  current: ProxySpec,
+  input: UpdateProxyBody,
+  replace: boolean
+): ProxySpec {
+  const next: ProxySpec = replace
+    ? { hosts: current.hosts, upstreams: current.upstreams, terminal: true }
+    : { ...current };
+  if (input.hosts) next.hosts = input.hosts;
+  if (input.upstreams) next.upstreams = input.upstreams;
+  if (input.terminal !== undefined) next.terminal = input.terminal;
+  for (const key of PROXY_OPTION_KEYS) {
+    const value = input[key];
+    if (value === null) delete next[key];
+    else if (value !== undefined) (next as any)[key] = value;
+  }
+  return next;
+}
+
+// Build the Caddy route for a spec. An existing route is used as the base,
+// so matchers and handler settings this API does not model are kept.
+function buildProxyRoute(id: string, spec: ProxySpec, base?: any) {
+  const route = base ? structuredClone(base) : { "@id": id };
+  const sets: any[] =
+    Array.isArray(route.match) && route.match.length > 0 ? route.match : [{}];
+  route.match = sets.map((m) => {
+    const { path, ...rest } = m;
+    return spec.paths
+      ? { ...rest, host: spec.hosts, path: spec.paths }
+      : { ...rest, host: spec.hosts };
+  });
+  const handles: any[] = Array.isArray(route.handle) ? route.handle : [];
+  const index = handles.findIndex((h) => h?.handler === "reverse_proxy");
+  const handler = buildReverseProxyHandler(spec, handles[index]);
+  if (index >= 0) handles[index] = handler;
+  else handles.push(handler);
+  route.handle = handles;
+  route.terminal = spec.terminal;
+  return route;
+}
+
+// Keys of the handler's sub-objects that this API models. Everything else
+// in them, e.g. health check headers, is kept from the base.
+const MANAGED_LB_KEYS = [
+  "selection_policy",
+  "retries",
+  "try_duration",
+  "try_interval",
+];
+
+const MANAGED_ACTIVE_CHECK_KEYS = [
+  "uri",
+  "path",
+  "port",
+  "interval",
+  "timeout",
+  "expect_status",
+];
+
+const MANAGED_PASSIVE_CHECK_KEYS = [
+  "fail_duration",
+  "max_fails",
+  "unhealthy_status",
+  "unhealthy_latency",
+];
+
+const MANAGED_HEADER_OP_KEYS = ["set", "add", "delete"];
+
+const MANAGED_TRANSPORT_KEYS = [
+  "tls",
+  "versions",
+  "dial_timeout",
+  "read_timeout",
+  "write_timeout",
+  "response_header_timeout",
+];
+
+// `base` without its managed keys, with the defined values set instead.
+// Undefined when nothing is left.
+function mergeManaged(
+  base: any,
+  managed: string[],
+  values: JsonRecord
+): JsonRecord | undefined {
+  const out: JsonRecord = base && typeof base === "object" ? { ...base } : {};
+  for (const key of managed) delete out[key];
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) out[key] = value;
+  }
+  return Object.keys(out).length > 0 ? out : undefined;
+}
+
+function buildReverseProxyHandler(spec: ProxySpec, base?: any) {
+  const {
+    load_balancing: baseLb,
+    health_checks: baseChecks,
+    headers: baseHeaders,
+    transport: baseTransport,
+    ...rest
+  } = base ?? {};
+  const handler: any = {
+    ...rest,
+    handler: "reverse_proxy",
+    upstreams: spec.upstreams.map((dial) => ({ dial })),
+  };
+
+  // A selection policy keeps its options, e.g. the header field, while the
+  // policy stays the same
+  const lb = spec.loadBalancing;
+  const policy =
+    lb?.policy === undefined
+      ? undefined
+      : baseLb?.selection_policy?.policy === lb.policy
+      ? baseLb.selection_policy
+      : { policy: lb.policy };
+  const loadBalancing = mergeManaged(baseLb, MANAGED_LB_KEYS, {
+    selection_policy: policy,
+    retries: lb?.retries,
+    try_duration: lb?.tryDuration,
+    try_interval: lb?.tryInterval,
+  });
+  if (loadBalancing) handler.load_balancing = loadBalancing;
+
+  const { active, passive } = spec.healthChecks ?? {};
+  const healthChecks = mergeManaged(baseChecks, ["active", "passive"], {
+    active: mergeManaged(baseChecks?.active, MANAGED_ACTIVE_CHECK_KEYS, {
+      uri: active?.uri,
+      port: active?.port,
+      interval: active?.interval,
+      timeout: active?.timeout,
+      expect_status: active?.expectStatus,
+    }),
+    passive: mergeManaged(baseChecks?.passive, MANAGED_PASSIVE_CHECK_KEYS, {
+      fail_duration: passive?.failDuration,
+      max_fails: passive?.maxFails,
+      unhealthy_status: passive?.unhealthyStatus,
+      unhealthy_latency: passive?.unhealthyLatency,
+    }),
+  });
+  if (healthChecks) handler.health_checks = healthChecks;
+
+  const headerOps = (base: any, ops?: HeaderOps) =>
+    mergeManaged(base, MANAGED_HEADER_OP_KEYS, { ...ops });
+  const headers = mergeManaged(baseHeaders, ["request", "response"], {
+    request: headerOps(baseHeaders?.request, spec.headers?.request),
+    response: headerOps(baseHeaders?.response, spec.headers?.response),
+  });
+  if (headers) handler.headers = headers;
+
+  // Transport settings this API does not model, e.g. keepalive, are kept
+  const transport: any = { ...baseTransport };
+  for (const key of MANAGED_TRANSPORT_KEYS) delete transport[key];
+  const { tls, versions } = spec.transport ?? {};
+  if (tls) {
+    transport.tls = {
+      server_name: tls.serverName,
+      insecure_skip_verify: tls.insecureSkipVerify,
+      root_ca_pem_files: tls.caFiles,
+    };
+  }
+  if (versions) transport.versions = versions;
+  const timeouts = spec.timeouts ?? {};
+  if (timeouts.dial) transport.dial_timeout = timeouts.dial;
+  if (timeouts.read) transport.read_timeout = timeouts.read;
+  if (timeouts.write) transport.write_timeout = timeouts.write;
+  if (timeouts.responseHeader)
+    transport.response_header_timeout = timeouts.responseHeader;
+  if (Object.keys(transport).some((k) => k !== "protocol"))
+    handler.transport = { protocol: "http", ...transport };
+
+  return handler;
+}
+
+// The inverse of buildProxyRoute, for the first reverse_proxy handler
+function parseProxyRoute(route: any): ProxySpec {
+  const sets: any[] = Array.isArray(route.match) ? route.match : [];
+  const hosts = sets.flatMap((m) => (Array.isArray(m.host) ? m.host : []));
+  const paths = sets.flatMap((m) => (Array.isArray(m.path) ? m.path : []));
+  const handles: any[] = Array.isArray(route.handle) ? route.handle : [];
+  const h = handles.find((x) => x?.handler === "reverse_proxy") ?? {};
+  const upstreams: string[] = Array.isArray(h.upstreams)
+    ? h.upstreams
+        .map((u: any) => (typeof u?.dial === "string" ? u.dial : undefined))
+        .filter((v: any) => typeof v === "string")
+    : [];
+  const spec: ProxySpec = {
+    hosts,
+    upstreams,
+    terminal: route.terminal ?? false,
+  };
+  if (paths.length > 0) spec.paths = [...new Set(paths)];
+
+  const lb = h.load_balancing;
+  if (lb) {
+    spec.loadBalancing = {
+      policy: lb.selection_policy?.policy,
+      retries: lb.retries,
+      tryDuration: lb.try_duration,
+      tryInterval: lb.try_interval,
+    };
+  }
+
+  const { active, passive } = h.health_checks ?? {};
+  if (active || passive) {
+    spec.healthChecks = {
+      active: active && {
+        uri: active.uri ?? active.path,
+        port: active.port,
+        interval: active.interval,
+        timeout: active.timeout,
+        expectStatus: active.expect_status,
+      },
+      passive: passive && {
+        failDuration: passive.fail_duration,
+        maxFails: passive.max_fails,
+        unhealthyStatus: passive.unhealthy_status,
+        unhealthyLatency: passive.unhealthy_latency,
+      },
+    };
+  }
+
+  if (h.headers) {
+    const pick = (ops: any): HeaderOps | undefined =>
+      ops && { set: ops.set, add: ops.add, delete: ops.delete };
+    spec.headers = {
+      request: pick(h.headers.request),
+      response: pick(h.headers.response),
+    };
+  }
+
+  const t = h.transport;
+  if (t && (t.tls || t.versions)) {
+    spec.transport = {
+      tls: t.tls && {
+        serverName: t.tls.server_name,
+        insecureSkipVerify: t.tls.insecure_skip_verify,
+        caFiles: t.tls.root_ca_pem_files,
+      },
+      versions: t.versions,
+    };
+  }
+  if (
+    t &&
+    (t.dial_timeout ||
+      t.read_timeout ||
+      t.write_timeout ||
+      t.response_header_timeout)
+  ) {
+    spec.timeouts = {
+      dial: t.dial_timeout,
+      read: t.read_timeout,
+      write: t.write_timeout,
+      responseHeader: t.response_header_timeout,
+    };
+  }
+  return spec;
+}
+
+// A created or updated route and the server it is in
+type WrittenRoute = { route: any; server: string; takenOver: TakenOver };
+
+// Caddy's view of an upstream, from /reverse_proxy/upstreams
+type UpstreamCounts = { numRequests: number; fails: number };
+
+// Direct TCP connect from the manager. reachable is null when the dial
+// target is not a host:port address (unix sockets, placeholders).
+type UpstreamProbe = {
+  reachable: boolean | null;
+  latencyMs: number | null;
+  error?: string;
+};
+
+type UpstreamHealth = {
+  dial: string;
+  // null when Caddy does not report the upstream
+  numRequests: number | null;
+  fails: number | null;
+  healthy: boolean | null;
+  probe?: UpstreamProbe;
+};
+
+type ProxyHealth = {
+  status: "healthy" | "degraded" | "down" | "unknown";
+  upstreams: UpstreamHealth[];
+};
+
+const PROBE_CONCURRENCY = 32;
+
+function probeTcp(dial: string, timeoutMs: number): Promise<UpstreamProbe> {
+  const m = dial.match(/^(?:tcp\/)?(?:\[([^\]]+)\]|([^:\/\s{}]+)):(\d+)$/);
+  if (!m)
+    return Promise.resolve({
+      reachable: null,
+      latencyMs: null,
+      error: "not a host:port address",
+    });
+  const started = performance.now();
+  return new Promise((resolve) => {
+    const socket = connect({ host: m[1] ?? m[2]!, port: Number(m[3]) });
+    const done = (error?: string) => {
+      clearTimeout(timer);
+      socket.destroy();
+      resolve(
+        error === undefined
+          ? {
+              reachable: true,
+              latencyMs: Math.round(performance.now() - started),
+            }
+          : { reachable: false, latencyMs: null, error }
+      );
+    };
+    const timer = setTimeout(
+      () => done(`no connection within ${timeoutMs}ms`),
+      timeoutMs
+    );
+    socket.once("connect", () => done());
+    socket.once("error", (e) => done(e.message));
+  });
+}
+
+// A probe decides if there is one; otherwise only fails Caddy counted
+// (with passive health checks) mark an upstream as down
+function summarizeHealth(
+  dials: string[],
+  counts: Map<string, UpstreamCounts> | null,
+  probes: Map<string, UpstreamProbe>
+): ProxyHealth {
+  const upstreams = dials.map((dial): UpstreamHealth => {
+    const c = counts?.get(dial);
+    const probe = probes.get(dial);
+    let healthy: boolean | null = null;
+    if (probe && probe.reachable !== null) healthy = probe.reachable;
+    else if (c && c.fails > 0) healthy = false;
+    const out: UpstreamHealth = {
+      dial,
+      numRequests: c?.numRequests ?? null,
+      fails: c?.fails ?? null,
+      healthy,
+    };
+    if (probe) out.probe = probe;
+    return out;
+  });
+  const up = upstreams.filter((u) => u.healthy === true).length;
+  const down = upstreams.filter((u) => u.healthy === false).length;
+  let status: ProxyHealth["status"] = "unknown";
+  if (upstreams.length > 0 && down === upstreams.length) status = "down";
+  else if (down > 0) status = "degraded";
+  else if (upstreams.length > 0 && up === upstreams.length) status = "healthy";
+  return { status, upstreams };
+}
+
+// Layer-4 (caddy-l4) routes, for TCP/UDP traffic such as Minecraft
+const L4_ID_PREFIX = "l4-";
+
+const L4_ADDRESS_RE = /^((tcp|udp)\/)?[^\s\/]*:\d+(-\d+)?$/;
+
+// Hostname matchers: TLS SNI, or the server address of a Minecraft Java
+// handshake (needs a Caddy build with the layer4 minecraft matcher)
+type L4Match = { sni?: string[]; minecraft?: string[] };
+
+type L4ProxySpec = { match?: L4Match; upstreams: string[] };
+
+type CreateL4ProxyBody = L4ProxySpec & {
+  id?: string;
+  server: string;
+  // Required when the layer4 server does not exist yet
+  listen?: string[];
+};
+
+// match is set to null in a PATCH to remove it
+type UpdateL4ProxyBody = {
+  server?: string;
+  match?: L4Match | null;
+  upstreams?: string[];
+};
+
+function validateCreateL4ProxyBody(body: any): CreateL4ProxyBody {
+  if (!body || typeof body !== "object")
+    throw new HttpError(400, "body must be object");
+  const out: CreateL4ProxyBody = { server: "", upstreams: [] };
+  if (body.id !== undefined) {
+    if (typeof body.id !== "string" || !body.id)
+      throw new HttpError(400, "id must be non-empty string");
+    out.id = body.id;
+  }
+  if (typeof body.server !== "string" || !body.server)
+    throw new HttpError(400, "server must be non-empty string");
+  out.server = body.server;
+  if (body.listen !== undefined) out.listen = validateListen(body.listen);
+  out.upstreams = validateL4Addresses(body.upstreams, "upstreams");
+  if (body.match !== undefined) out.match = validateL4Match(body.match);
+  return out;
+}
+
+function validateUpdateL4ProxyBody(
+  body: any,
+  id: string,
+  partial: boolean
+): UpdateL4ProxyBody {
+  if (!body || typeof body !== "object")
+    throw new HttpError(400, "body must be object");
+  if (body.id !== undefined && body.id !== id)
+    throw new HttpError(400, "id cannot be changed");
+  if (body.listen !== undefined)
+    throw new HttpError(
+      400,
+      "listen belongs to the layer4 server and cannot be changed per route"
+    );
+  const out: UpdateL4ProxyBody = {};
+  if (body.server !== undefined) {
+    if (typeof body.server !== "string" || !body.server)
+      throw new HttpError(400, "server must be non-empty string");
+    out.server = body.server;
+  }
+  if (!partial || body.upstreams !== undefined)
+    out.upstreams = validateL4Addresses(body.upstreams, "upstreams");
+  if (body.match === null && partial) out.match = null;
+  else if (body.match !== undefined && body.match !== null)
+    out.match = validateL4Match(body.match);
+
+  if (partial && Object.keys(out).every((k) => k === "server"))
+    throw new HttpError(400, "provide at least one field to change");
+  return out;
+}
+
+function validateListen(listen: any): string[] {
+  const out = validateL4Addresses(listen, "listen");
+  if (new Set(out.map(l4Network)).size > 1)
+    throw new HttpError(400, "listen addresses must all be tcp or all be udp");
+  return out;
+}
+
+function validateL4Addresses(value: any, field: string): string[] {
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    !value.every((v: unknown) => typeof v === "string" && L4_ADDRESS_RE.test(v))
+  )
+    throw new HttpError(
+      400,
+      `${field} must be non-empty array of [tcp/|udp/]host:port`
+    );
+  return value;
+}
+
+function validateL4Match(value: any): L4Match {
+  const m = validateObject(value, "match", ["sni", "minecraft"]);
+  const out: L4Match = {};
+  if (m.sni !== undefined) out.sni = validateStrings(m.sni, "match.sni");
+  if (m.minecraft !== undefined)
+    out.minecraft = validateStrings(m.minecraft, "match.minecraft");
+  if (!out.sni && !out.minecraft)
+    throw new HttpError(400, "match needs sni or minecraft");
+  return out;
+}
+
+function l4Network(address: string): "tcp" | "udp" {
+  return address.startsWith("udp/") ? "udp" : "tcp";
+}
+
+// Build the layer4 route for a spec. Matcher sets and handler settings this
+// API does not model are kept from an existing route.
+function buildL4Route(
+  id: string,
+  spec: L4ProxySpec,
+  network: "tcp" | "udp",
+  base?: any
+) {
+  const route = base ? structuredClone(base) : { "@id": id };
+  const sets: any[] = (Array.isArray(route.match) ? route.match : []).filter(
+    (m: any) => !m?.tls?.sni && !m?.minecraft
+  );
+  if (spec.match?.sni) sets.push({ tls: { sni: spec.match.sni } });
+  if (spec.match?.minecraft)
+    sets.push({ minecraft: { hostnames: spec.match.minecraft } });
+  if (sets.length > 0) route.match = sets;
+  else delete route.match;
+
+  const handles: any[] = Array.isArray(route.handle) ? route.handle : [];
+  const index = handles.findIndex((h) => h?.handler === "proxy");
+  const handler = {
+    ...(handles[index] ?? {}),
+    handler: "proxy",
+    // A UDP listener dials its upstreams over UDP
+    upstreams: spec.upstreams.map((u) => ({
+      dial: [network === "udp" && l4Network(u) === "tcp" ? `udp/${u}` : u],
+    })),
+  };
+  if (index >= 0) handles[index] = handler;
+  else handles.push(handler);
+  route.handle = handles;
+  return route;
+}
+
+function parseL4Route(route: any): L4ProxySpec {
+  const sets: any[] = Array.isArray(route.match) ? route.match : [];
+  const sni: string[] = sets.flatMap((m) =>
+    Array.isArray(m?.tls?.sni) ? m.tls.sni : []
+  );
+  const minecraft: string[] = sets.flatMap((m) =>
+    Array.isArray(m?.minecraft?.hostnames) ? m.minecraft.hostnames : []
+  );
+  const handles: any[] = Array.isArray(route.handle) ? route.handle : [];
+  const h = handles.find((x) => x?.handler === "proxy") ?? {};
+  const upstreams: string[] = Array.isArray(h.upstreams)
+    ? h.upstreams.flatMap((u: any) =>
+        Array.isArray(u?.dial)
+          ? u.dial.filter((d: unknown) => typeof d === "string")
+          : []
+      )
+    : [];
+  const spec: L4ProxySpec = { upstreams };
+  if (sni.length > 0 || minecraft.length > 0) {
+    spec.match = {};
+    if (sni.length > 0) spec.match.sni = sni;
+    if (minecraft.length > 0) spec.match.minecraft = minecraft;
+  }
+  return spec;
+}
+
+const WEBHOOK_EVENTS = [
+  "proxy.created",
+  "proxy.updated",
+  "proxy.deleted",
+] as const;
+
+type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+// Caddy apps the manager changes, and so snapshots
+type SnapshotApp = "http" | "layer4";
+
+type SnapshotMeta = {
+  id: string;
+  // Missing in snapshots taken before layer4 ones existed
+  app: SnapshotApp;
+  createdAt: number;
+  actor: { id: string; name: string };
+  reason: string;
+};
+
+// The /config/apps/<app> subtree, or null when Caddy had no such app
+type Snapshot = SnapshotMeta & { config: any };
+
+// One JSON file per snapshot, newest `limit` kept
+class SnapshotStore {
+  private readonly index = new Map<string, SnapshotMeta>();
+  private readonly dir: string;
+  private readonly limit: number;
+
+  constructor(dir: string, limit: number) {
+    this.dir = dir;
+    this.limit = limit;
+  }
+
+  async load() {
+    await mkdir(this.dir, { recursive: true });
+    for (const name of await readdir(this.dir)) {
+      if (!name.endsWith(".json")) continue;
+      const raw = await readFile(join(this.dir, name), "utf8").catch(() => "");
+      try {
+        const { config, ...meta } = JSON.parse(raw) as Snapshot;
+        this.index.set(meta.id, { ...meta, app: meta.app ?? "http" });
+      } catch {
+        console.error(`skipping unreadable snapshot ${name}`);
+      }
+    }
+  }
+
+  // Newest first
+  list(): SnapshotMeta[] {
+    return Array.from(this.index.values()).sort(
+      (a, b) => b.createdAt - a.createdAt
+    );
+  }
+
+  async get(id: string): Promise<Snapshot | null> {
+    if (!this.index.has(id)) return null;
+    const raw = await readFile(this.path(id), "utf8");
+    const snap = JSON.parse(raw) as Snapshot;
+    return { ...snap, app: snap.app ?? "http" };
+  }
+
+  async create(
+    actor: Principal,
+    reason: string,
+    app: SnapshotApp,
+    config: any
+  ): Promise<SnapshotMeta> {
+    const createdAt = Date.now();
+    const meta: SnapshotMeta = {
+      id: `snap_${createdAt.toString(36)}_${randomToken(3)}`,
+      app,
+      createdAt,
+      actor: { id: actor.id, name: actor.name },
+      reason,
+    };
+    const data = JSON.stringify({ ...meta, config }, null, 2);
+    const tmp = `${this.path(meta.id)}.${crypto.randomUUID()}.tmp`;
+    await writeFile(tmp, data, { encoding: "utf8", mode: 0o600 });
+    await rename(tmp, this.path(meta.id));
+    this.index.set(meta.id, meta);
+    await this.prune();
+    return meta;
+  }
+
+  private async prune() {
+    for (const old of this.list().slice(this.limit)) {
+      this.index.delete(old.id);
+      await unlink(this.path(old.id)).catch(() => {});
+    }
+  }
+
+  private path(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+}
+
+type ConfigChange = {
+  path: string;
+  op: "add" | "remove" | "change";
+  from?: unknown;
+  to?: unknown;
+};
+
+// Structural diff of two JSON values. Array items that carry an @id are
+// matched by it (path segment `@id:<value>`), so reordered routes only show
+// up as what actually changed.
+function diffConfig(a: any, b: any, path = ""): ConfigChange[] {
+  if (canonicalJson(a ?? null) === canonicalJson(b ?? null)) return [];
+  if (a === undefined || a === null) return [{ path, op: "add", to: b }];
+  if (b === undefined || b === null) return [{ path, op: "remove", from: a }];
+
+  const keyed = (v: any[]) =>
+    v.every((x) => x && typeof x === "object" && typeof x["@id"] === "string");
+  if (Array.isArray(a) && Array.isArray(b) && keyed(a) && keyed(b)) {
+    const toMap = (v: any[]) => new Map(v.map((x) => [`@id:${x["@id"]}`, x]));
+    return diffEntries(toMap(a), toMap(b), path);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const toMap = (v: any[]) => new Map(v.map((x, i) => [String(i), x]));
+    return diffEntries(toMap(a), toMap(b), path);
+  }
+  const isObject = (v: any) => typeof v === "object" && !Array.isArray(v);
+  if (isObject(a) && isObject(b)) {
+    return diffEntries(
+      new Map(Object.entries(a)),
+      new Map(Object.entries(b)),
+      path
+    );
+  }
+  return [{ path, op: "change", from: a, to: b }];
+}
+
+function diffEntries(
+  a: Map<string, any>,
+  b: Map<string, any>,
+  path: string
+): ConfigChange[] {
+  const keys = [...new Set([...a.keys(), ...b.keys()])];
+  return keys.flatMap((k) =>
+    diffConfig(
+      a.get(k),
+      b.get(k),
+      `${path}/${k.replace(/~/g, "~0").replace(/\//g, "~1")}`
+    )
+  );
+}
+
 class CaddyClient {
   private readonly baseUrl: string;
   private readonly adminToken: string;
   private readonly timeoutMs: number;
+  private writing: Promise<unknown> = Promise.resolve();
 
   constructor(baseUrl: string, adminToken: string, timeoutMs = 3000) {
     this.baseUrl = baseUrl.replace(/\/$/, "");
@@ -110,6 +1157,15 @@ class CaddyClient {
     this.timeoutMs = timeoutMs;
   }
 
+  // Writes read the live routes, check them for conflicts and write them
+  // back, so they run one at a time. Otherwise two writes could both pass
+  // the check, or one could load servers without the other's change.
+  exclusive<T>(write: () => Promise<T>): Promise<T> {
+    const run = this.writing.then(write, write);
+    this.writing = run.catch(() => {});
+    return run;
+  }
+
   private async fetchJson(
     path: string,
     init?: RequestInit & { expect?: number | number[] }
@@ -150,6 +1206,49 @@ class CaddyClient {
     }
   }
 
+  async getApp(app: SnapshotApp): Promise<any | null> {
+    const res = await this.fetch(`/config/apps/${app}`);
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      const msg = await res.text().catch(() => "");
+      throw new HttpError(res.status, msg || `failed to read caddy ${app} app`);
+    }
+    return await res.json();
+  }
+
+  // Replace a whole app; Caddy reloads it in one step and keeps the old
+  // config if the new one fails to load
+  async loadApp(app: SnapshotApp, config: any | null): Promise<void> {
+    if (config === null) {
+      const res = await this.fetch(`/config/apps/${app}`, { method: "DELETE" });
+      if (res.ok || res.status === 404) return;
+      const text = await res.text().catch(() => "");
+      throw new HttpError(res.status, text || `failed to remove ${app} app`);
+    }
+    await this.fetchJson(`/config/apps/${app}`, {
+      method: "POST",
+      body: JSON.stringify(config),
+      expect: 200,
+    });
+  }
+
+  // Request and failure counts of every reverse_proxy upstream, by dial
+  // address. Counts are shared by routes that dial the same address.
+  async getUpstreamCounts(): Promise<Map<string, UpstreamCounts>> {
+    const list = await this.fetchJson("/reverse_proxy/upstreams", {
+      expect: 200,
+    });
+    const counts = new Map<string, UpstreamCounts>();
+    for (const u of Array.isArray(list) ? list : []) {
+      if (typeof u?.address !== "string") continue;
+      counts.set(u.address, {
+        numRequests: Number(u.num_requests ?? 0),
+        fails: Number(u.fails ?? 0),
+      });
+    }
+    return counts;
+  }
+
   async getHttpServers(): Promise<Record<string, any>> {
     const res = await this.fetch("/config/apps/http/servers");
     if (res.status === 404) return {};
@@ -160,6 +1259,16 @@ class CaddyClient {
     return (await res.json()) as Record<string, any>;
   }
 
+  // Replace every http server in one config load, for changes that touch
+  // several routes and must not be seen half-applied
+  async loadHttpServers(servers: Record<string, any>): Promise<void> {
+    await this.fetchJson("/config/apps/http/servers", {
+      method: "PATCH",
+      body: JSON.stringify(servers),
+      expect: 200,
+    });
+  }
+
   async getHttpServer(name: string): Promise<any | null> {
     const res = await this.fetch(
       `/config/apps/http/servers/${encodeURIComponent(name)}`
@@ -198,13 +1307,9 @@ class CaddyClient {
 
   async listReverseProxies(targetServer?: string) {
     const servers = await this.getHttpServers();
-    const items: Array<{
-      id?: string;
-      server: string;
-      hosts?: string[];
-      upstreams?: string[];
-      route?: any;
-    }> = [];
+    const items: Array<
+      ProxySpec & { id?: string; server: string; route: any }
+    > = [];
     for (const [serverName, serverCfg] of Object.entries(servers)) {
       if (targetServer && serverName !== targetServer) continue;
       const routes: any[] = Array.isArray((serverCfg as any).routes)
@@ -212,56 +1317,293 @@ class CaddyClient {
         : [];
       for (const route of routes) {
         const handles: any[] = Array.isArray(route.handle) ? route.handle : [];
-        for (const h of handles) {
-          if (h && h.handler === "reverse_proxy") {
-            const id: string | undefined = route["@id"];
-            const hosts: string[] | undefined = Array.isArray(route.match)
-              ? route.match.flatMap((m: any) =>
-                  Array.isArray(m.host) ? m.host : []
-                )
-              : undefined;
-            const upstreams: string[] | undefined = Array.isArray(h.upstreams)
-              ? h.upstreams
-                  .map((u: any) =>
-                    typeof u?.dial === "string" ? u.dial : undefined
-                  )
-                  .filter((v: any) => typeof v === "string")
-              : undefined;
-            items.push({ id, server: serverName, hosts, upstreams, route });
-          }
-        }
+        if (!handles.some((h) => h?.handler === "reverse_proxy")) continue;
+        const id: string | undefined = route["@id"];
+        items.push({
+          id,
+          server: serverName,
+          ...parseProxyRoute(route),
+          route,
+        });
       }
     }
     return items;
   }
 
-  async createReverseProxy(input: CreateProxyBody) {
+  // Hosts already routed elsewhere are rejected with 409, unless the
+  // takeover filter allows moving them
+  async createReverseProxy(
+    input: CreateProxyBody,
+    takeover?: TakeoverFilter
+  ): Promise<WrittenRoute> {
     await this.ensureRoutesArray(input.server);
-    const route = {
-      "@id": input.id ?? `rp-${crypto.randomUUID()}`,
-      match: [
-        {
-          host: Array.isArray(input.hosts) ? input.hosts : [input.hosts],
-        },
-      ],
-      handle: [
-        {
-          handler: "reverse_proxy",
-          upstreams: input.upstreams.map((dial) => ({ dial })),
-        },
-      ],
-      terminal: input.terminal ?? true,
-    };
+    const { id, server, hosts, terminal, ...spec } = input;
+    const routeId = id ?? `${MANAGED_ID_PREFIX}${crypto.randomUUID()}`;
+    const hostList = Array.isArray(hosts) ? hosts : [hosts];
+    const route = buildProxyRoute(routeId, {
+      ...spec,
+      hosts: hostList,
+      terminal: terminal ?? true,
+    });
+
+    const servers = await this.getHttpServers();
+    const conflicts = findHostConflicts(servers, hostList, spec.paths, routeId);
+    if (conflicts.length > 0) {
+      const { servers: next, takenOver } = takeOverHosts(
+        servers,
+        conflicts,
+        takeover
+      );
+      next[server].routes.push(route);
+      await this.loadHttpServers(next);
+      return { route, server, takenOver };
+    }
 
     // Append route to server routes
     await this.fetchJson(
-      `/config/apps/http/servers/${encodeURIComponent(input.server)}/routes`,
+      `/config/apps/http/servers/${encodeURIComponent(server)}/routes`,
       {
         method: "POST",
         body: JSON.stringify(route),
         expect: [200, 201],
       }
     );
+    return { route, server, takenOver: { updated: [], removed: [] } };
+  }
+
+  async getReverseProxy(id: string) {
+    const list = await this.listReverseProxies();
+    return list.find((p) => p.id === id) ?? null;
+  }
+
+  // Modify a route in place through /id/<id>, so it keeps its position in
+  // the route order and never stops matching in between
+  async updateReverseProxy(
+    id: string,
+    input: UpdateProxyBody,
+    replace: boolean,
+    takeover?: TakeoverFilter
+  ): Promise<WrittenRoute> {
+    const current = await this.getReverseProxy(id);
+    if (!current) throw new HttpError(404, "not found");
+    if (input.server !== undefined && input.server !== current.server)
+      throw new HttpError(
+        400,
+        `route ${id} is in server '${current.server}'; server cannot be changed`
+      );
+
+    const spec = mergeProxySpec(parseProxyRoute(current.route), input, replace);
+    const route = buildProxyRoute(id, spec, current.route);
+
+    const servers = await this.getHttpServers();
+    const conflicts = findHostConflicts(servers, spec.hosts, spec.paths, id);
+    if (conflicts.length > 0) {
+      const { servers: next, takenOver } = takeOverHosts(
+        servers,
+        conflicts,
+        takeover
+      );
+      const routes: any[] = next[current.server].routes;
+      routes[routes.findIndex((r) => r?.["@id"] === id)] = route;
+      await this.loadHttpServers(next);
+      return { route, server: current.server, takenOver };
+    }
+
+    await this.fetchJson(`/id/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(route),
+      expect: 200,
+    });
+    return {
+      route,
+      server: current.server,
+      takenOver: { updated: [], removed: [] },
+    };
+  }
+
+  async planSync(input: SyncProxyBody): Promise<SyncPlanEntry[]> {
+    return planProxySync(input, await this.listReverseProxies());
+  }
+
+  // Changes and additions go before removals, so a hostname that moves to
+  // another route never stops matching. Hosts can be taken over from other
+  // managed routes of the server only. A failed step does not stop the
+  // others.
+  async applySync(input: SyncProxyBody, plan: SyncPlanEntry[]) {
+    const desired = new Map(input.routes.map((r) => [r.id, r]));
+    const takeover: TakeoverFilter = (c) =>
+      c.server === input.server &&
+      c.id !== null &&
+      c.id.startsWith(input.prefix);
+    const order: SyncAction[] = ["change", "add", "remove", "unchanged"];
+    const steps = [...plan].sort(
+      (a, b) => order.indexOf(a.action) - order.indexOf(b.action)
+    );
+    const results: Array<SyncPlanEntry & { ok: boolean; error?: string }> = [];
+    const takenOver: TakenOver = { updated: [], removed: [] };
+    const record = (written: WrittenRoute) => {
+      takenOver.updated.push(...written.takenOver.updated);
+      takenOver.removed.push(...written.takenOver.removed);
+    };
+    for (const step of steps) {
+      try {
+        const route = desired.get(step.id)!;
+        if (step.action === "add") {
+          record(
+            await this.createReverseProxy(
+              { ...route, server: input.server },
+              takeover
+            )
+          );
+        } else if (step.action === "change") {
+          record(await this.updateReverseProxy(step.id, route, true, takeover));
+        } else if (step.action === "remove") {
+          await this.deleteById(step.id);
+        }
+        results.push({ ...step, ok: true });
+      } catch (e) {
+        const error = e instanceof Error ? e.message : String(e);
+        results.push({ ...step, ok: false, error });
+      }
+    }
+    return { results, takenOver };
+  }
+
+  async getL4Servers(): Promise<Record<string, any>> {
+    const res = await this.fetch("/config/apps/layer4/servers");
+    if (res.status === 404) return {};
+    if (!res.ok) {
+      const msg = await res.text().catch(() => "");
+      throw new HttpError(res.status, msg || "failed to read layer4 servers");
+    }
+    return ((await res.json()) as Record<string, any> | null) ?? {};
+  }
+
+  // Create the layer4 server (and app) if needed and make sure it has a
+  // routes array. An existing server keeps its listen addresses.
+  async ensureL4Server(name: string, listen?: string[]): Promise<any> {
+    const servers = await this.getL4Servers();
+    const existing = servers[name];
+    if (existing) {
+      const current: string[] = existing.listen ?? [];
+      if (listen && canonicalJson(listen) !== canonicalJson(current))
+        throw new HttpError(
+          409,
+          `layer4 server '${name}' listens on ${current.join(", ")}`
+        );
+      if (!Array.isArray(existing.routes)) {
+        await this.fetchJson(
+          `/config/apps/layer4/servers/${encodeURIComponent(name)}/routes`,
+          { method: "PUT", body: JSON.stringify([]), expect: 200 }
+        );
+      }
+      return { ...existing, routes: existing.routes ?? [] };
+    }
+    if (!listen)
+      throw new HttpError(
+        400,
+        `layer4 server '${name}' not found; provide listen to create it`
+      );
+    const server = { listen, routes: [] };
+    const res = await this.fetch("/config/apps/layer4");
+    const app = res.ok ? await res.json() : null;
+    if (!app) {
+      await this.fetchJson("/config/apps/layer4", {
+        method: "POST",
+        body: JSON.stringify({ servers: { [name]: server } }),
+        expect: 200,
+      });
+    } else if (!app.servers) {
+      await this.fetchJson("/config/apps/layer4/servers", {
+        method: "POST",
+        body: JSON.stringify({ [name]: server }),
+        expect: 200,
+      });
+    } else {
+      await this.fetchJson(
+        `/config/apps/layer4/servers/${encodeURIComponent(name)}`,
+        { method: "POST", body: JSON.stringify(server), expect: 200 }
+      );
+    }
+    return server;
+  }
+
+  async listL4Proxies(targetServer?: string) {
+    const servers = await this.getL4Servers();
+    const items: Array<
+      L4ProxySpec & {
+        id?: string;
+        server: string;
+        listen: string[];
+        route: any;
+      }
+    > = [];
+    for (const [serverName, serverCfg] of Object.entries(servers)) {
+      if (targetServer && serverName !== targetServer) continue;
+      const routes: any[] = Array.isArray(serverCfg?.routes)
+        ? serverCfg.routes
+        : [];
+      for (const route of routes) {
+        const handles: any[] = Array.isArray(route.handle) ? route.handle : [];
+        if (!handles.some((h) => h?.handler === "proxy")) continue;
+        items.push({
+          id: route["@id"],
+          server: serverName,
+          listen: serverCfg.listen ?? [],
+          ...parseL4Route(route),
+          route,
+        });
+      }
+    }
+    return items;
+  }
+
+  async createL4Proxy(input: CreateL4ProxyBody) {
+    const server = await this.ensureL4Server(input.server, input.listen);
+    const network = l4Network(server.listen?.[0] ?? "");
+    if (input.match && network === "udp")
+      throw new HttpError(400, "hostname matching needs a tcp listener");
+    const { id, server: name, listen, ...spec } = input;
+    const route = buildL4Route(
+      id ?? `${L4_ID_PREFIX}${crypto.randomUUID()}`,
+      spec,
+      network
+    );
+    await this.fetchJson(
+      `/config/apps/layer4/servers/${encodeURIComponent(name)}/routes`,
+      { method: "POST", body: JSON.stringify(route), expect: [200, 201] }
+    );
+    return route;
+  }
+
+  async getL4Proxy(id: string) {
+    const list = await this.listL4Proxies();
+    return list.find((p) => p.id === id) ?? null;
+  }
+
+  async updateL4Proxy(id: string, input: UpdateL4ProxyBody, replace: boolean) {
+    const current = await this.getL4Proxy(id);
+    if (!current) throw new HttpError(404, "not found");
+    if (input.server !== undefined && input.server !== current.server)
+      throw new HttpError(
+        400,
+        `route ${id} is in server '${current.server}'; server cannot be changed`
+      );
+
+    const spec = parseL4Route(current.route);
+    if (input.upstreams) spec.upstreams = input.upstreams;
+    if (input.match === null || (replace && !input.match)) delete spec.match;
+    else if (input.match) spec.match = input.match;
+
+    const network = l4Network(current.listen[0] ?? "");
+    if (spec.match && network === "udp")
+      throw new HttpError(400, "hostname matching needs a tcp listener");
+    const route = buildL4Route(id, spec, network, current.route);
+    await this.fetchJson(`/id/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(route),
+      expect: 200,
+    });
     return route;
   }
 
@@ -286,50 +1628,594 @@ if (!caddyToken) {
 
 const caddyUrl = process.env.CADDY_API_URL || "http://127.0.0.1:2019";
 const caddy = new CaddyClient(caddyUrl, caddyToken);
+// Files the manager keeps default to this directory
+const stateDir = process.env.CADDY_STATE_DIR || join("runtime", "caddy");
+await mkdir(stateDir, { recursive: true });
+const apiKeys = new ApiKeyStore<ApiScope>(
+  process.env.CADDY_KEYS_FILE || join(stateDir, "api-keys.json"),
+  caddyToken,
+  { rootName: "CADDY_API_SECRET", tokenPrefix: "cdym_" }
+);
+await apiKeys.load();
+const snapshots = new SnapshotStore(
+  process.env.CADDY_SNAPSHOTS_DIR || join(stateDir, "snapshots"),
+  Number(process.env.CADDY_SNAPSHOTS_LIMIT || 100)
+);
+await snapshots.load();
+const webhooks = new WebhookDispatcher<WebhookEventType>(
+  process.env.CADDY_WEBHOOKS_FILE || join(stateDir, "webhooks.json"),
+  {
+    userAgent: "caddy-manager-webhooks",
+    allowLocal: process.env.CADDY_WEBHOOKS_ALLOW_LOCAL === "true",
+  }
+);
+await webhooks.load();
+webhooks.start();
+const audit = new AuditLog(
+  process.env.CADDY_AUDIT_FILE || join(stateDir, "audit.jsonl")
+);
+
+for (const signal of ["SIGINT", "SIGTERM"]) {
+  process.on(signal as NodeJS.Signals, async () => {
+    await webhooks.stop();
+    process.exit(0);
+  });
+}
+
+function proxyEventData(route: any, server: string, principal: Principal) {
+  const spec = parseProxyRoute(route);
+  return {
+    id: route["@id"],
+    server,
+    hosts: spec.hosts,
+    upstreams: spec.upstreams,
+    actor: { id: principal.id, name: principal.name },
+  };
+}
+
+// Routes a takeover left with fewer hosts were updated, and those left
+// without hosts deleted
+function emitTakenOver(takenOver: TakenOver, principal: Principal) {
+  for (const { server, route } of takenOver.updated)
+    webhooks.emit("proxy.updated", proxyEventData(route, server, principal));
+  for (const { server, route } of takenOver.removed)
+    webhooks.emit("proxy.deleted", proxyEventData(route, server, principal));
+}
+
+// ?takeover=true moves conflicting hosts to the route being written, from
+// routes the key may change
+function takeoverFilter(
+  url: URL,
+  principal: Principal
+): TakeoverFilter | undefined {
+  if (url.searchParams.get("takeover") !== "true") return undefined;
+  return (c) => canAccessId(principal, c.id ?? undefined);
+}
+
+// Health of each proxy's upstreams. Without Caddy's counts the result
+// still has the probes; probes go to each distinct address once.
+async function collectHealth(
+  proxies: Array<{ upstreams: string[] }>,
+  probe: boolean,
+  timeoutMs: number
+): Promise<ProxyHealth[]> {
+  const counts = await caddy.getUpstreamCounts().catch((e) => {
+    console.error("failed to read caddy upstreams:", e);
+    return null;
+  });
+  const probes = new Map<string, UpstreamProbe>();
+  if (probe) {
+    const dials = [...new Set(proxies.flatMap((p) => p.upstreams))];
+    for (let i = 0; i < dials.length; i += PROBE_CONCURRENCY) {
+      const batch = dials.slice(i, i + PROBE_CONCURRENCY);
+      const results = await Promise.all(
+        batch.map((d) => probeTcp(d, timeoutMs))
+      );
+      batch.forEach((d, j) => probes.set(d, results[j]!));
+    }
+  }
+  return proxies.map((p) => summarizeHealth(p.upstreams, counts, probes));
+}
+
+function probeTimeout(url: URL): number {
+  const timeoutMs = Number(url.searchParams.get("timeoutMs") || 1000);
+  if (!Number.isInteger(timeoutMs) || timeoutMs < 1 || timeoutMs > 10000)
+    throw new HttpError(400, "timeoutMs must be integer 1..10000");
+  return timeoutMs;
+}
+
+// Record the app before a change so it can be rolled back. The
+// X-Change-Reason header overrides the default reason.
+async function snapshotBefore(
+  req: Request,
+  principal: Principal,
+  reason: string,
+  app: SnapshotApp = "http"
+): Promise<SnapshotMeta> {
+  const config = await caddy.getApp(app);
+  return await snapshots.create(
+    principal,
+    req.headers.get("x-change-reason")?.trim() || reason,
+    app,
+    config
+  );
+}
+
+const AUDIT_ROUTES: Array<[RegExp, string]> = [
+  [/^\/proxies\/sync$/, "/proxies/sync"],
+  [/^\/proxies\/([^\/]+)\/health$/, "/proxies/:id/health"],
+  [/^\/proxies\/([^\/]+)$/, "/proxies/:id"],
+  [/^\/l4proxies\/([^\/]+)$/, "/l4proxies/:id"],
+  [/^\/snapshots\/([^\/]+)\/diff$/, "/snapshots/:id/diff"],
+  [/^\/snapshots\/([^\/]+)\/restore$/, "/snapshots/:id/restore"],
+  [/^\/webhooks\/([^\/]+)\/deliveries$/, "/webhooks/:id/deliveries"],
+  [/^\/webhooks\/([^\/]+)$/, "/webhooks/:id"],
+  [/^\/keys\/([^\/]+)$/, "/keys/:id"],
+];
+
+const AUDIT_STATIC_ROUTES = [
+  "/healthz",
+  "/proxies",
+  "/l4proxies",
+  "/snapshots",
+  "/webhooks",
+  "/keys",
+  "/audit",
+];
+
+// Route template and the route, snapshot, key or webhook a call is about:
+// the id in the path, else the id in the request body or of what was
+// created
+function auditRoute(
+  pathname: string,
+  body: any,
+  created: any
+): { route: string; target: string | null } {
+  const fallback =
+    typeof body?.id === "string"
+      ? body.id
+      : typeof created?.route?.["@id"] === "string"
+      ? created.route["@id"]
+      : typeof created?.id === "string"
+      ? created.id
+      : null;
+  if (AUDIT_STATIC_ROUTES.includes(pathname))
+    return { route: pathname, target: fallback };
+  for (const [re, route] of AUDIT_ROUTES) {
+    const match = pathname.match(re);
+    if (match) return { route, target: decodeURIComponent(match[1]!) };
+  }
+  return { route: "unmatched", target: fallback };
+}
 
 const server = Bun.serve({
   hostname: process.env.HOST || "127.0.0.1",
   port: Number(process.env.PORT || 3001),
-  fetch: async (req) => {
-    try {
-      const url = parseUrl(req);
-      if (url.pathname === "/healthz") return textResponse("ok");
+  fetch: auditFetch(
+    {
+      log: audit,
+      authenticate: (req) => apiKeys.authenticate(req),
+      describe: auditRoute,
+    },
+    async (req, server, authenticate) => {
+      try {
+        const url = parseUrl(req);
+        if (url.pathname === "/healthz") return textResponse("ok");
 
-      // API is protected by the same CADDY_API_SECRET
-      requireAuth(req, caddyToken);
+        // CADDY_API_SECRET or a key from the key store
+        const principal = authenticate();
 
-      // GET /proxies?server=srv0
-      if (req.method === "GET" && url.pathname === "/proxies") {
-        const serverName = url.searchParams.get("server") || undefined;
-        const list = await caddy.listReverseProxies(serverName || undefined);
-        return jsonResponse(list);
-      }
+        // GET /keys, POST /keys, DELETE /keys/:id
+        const keyMatch = url.pathname.match(/^\/keys\/([^\/]+)$/);
+        if (url.pathname === "/keys" || keyMatch) {
+          requireScope(principal, "keys:admin");
+          if (req.method === "GET" && !keyMatch) {
+            return jsonResponse(
+              apiKeys
+                .list()
+                .filter((k) => grantError(principal, k) === null)
+                .map((k) => serializeKey(k))
+            );
+          }
+          if (req.method === "POST" && !keyMatch) {
+            const input = validateCreateKeyBody(
+              await readJson(req),
+              API_SCOPES
+            );
+            assertGrantable(principal, input);
+            const { key, token } = await apiKeys.create(input);
+            return jsonResponse(
+              { ...serializeKey(key), token },
+              { status: 201 }
+            );
+          }
+          if (req.method === "DELETE" && keyMatch) {
+            const target = apiKeys.get(decodeURIComponent(keyMatch[1]!));
+            if (!target) throw new HttpError(404, "not found");
+            assertGrantable(principal, target);
+            const key = (await apiKeys.revoke(target.id))!;
+            return jsonResponse({ ok: true, key: serializeKey(key) });
+          }
+        }
 
-      // POST /proxies
-      if (req.method === "POST" && url.pathname === "/proxies") {
-        const body = validateCreateProxyBody(await readJson(req));
-        const route = await caddy.createReverseProxy(body);
-        return jsonResponse({ ok: true, route }, { status: 201 });
-      }
+        // GET /proxies?server=srv0&probe=true&timeoutMs=1000
+        if (req.method === "GET" && url.pathname === "/proxies") {
+          requireScope(principal, "proxies:read");
+          const serverName = url.searchParams.get("server") || undefined;
+          const list = (
+            await caddy.listReverseProxies(serverName || undefined)
+          ).filter((p) => canAccessId(principal, p.id));
+          const health = await collectHealth(
+            list,
+            url.searchParams.get("probe") === "true",
+            probeTimeout(url)
+          );
+          return jsonResponse(
+            list.map((p, i) => ({ ...p, health: health[i] }))
+          );
+        }
 
-      // DELETE /proxies/:id
-      const delMatch = url.pathname.match(/^\/proxies\/([^\/]+)$/);
-      if (req.method === "DELETE" && delMatch) {
-        const id = decodeURIComponent(delMatch[1]!);
-        const deleted = await caddy.deleteById(id);
-        if (!deleted) throw new HttpError(404, "not found");
-        return jsonResponse({ ok: true });
-      }
+        // GET /proxies/:id/health?probe=false&timeoutMs=1000
+        const healthMatch = url.pathname.match(/^\/proxies\/([^\/]+)\/health$/);
+        if (req.method === "GET" && healthMatch) {
+          const id = decodeURIComponent(healthMatch[1]!);
+          requireIdAccess(principal, id);
+          requireScope(principal, "proxies:read");
+          const proxy = await caddy.getReverseProxy(id);
+          if (!proxy) throw new HttpError(404, "not found");
+          const [health] = await collectHealth(
+            [proxy],
+            url.searchParams.get("probe") !== "false",
+            probeTimeout(url)
+          );
+          return jsonResponse({ id, server: proxy.server, ...health! });
+        }
 
-      return jsonResponse({ error: "not found" }, { status: 404 });
-    } catch (e) {
-      if (e instanceof HttpError) {
-        return jsonResponse({ error: e.message }, { status: e.status });
+        // POST /proxies
+        if (req.method === "POST" && url.pathname === "/proxies") {
+          requireScope(principal, "proxies:write");
+          const body = validateCreateProxyBody(await readJson(req));
+          requireIdAccess(principal, body.id);
+          const takeover = takeoverFilter(url, principal);
+          const written = await caddy.exclusive(async () => {
+            await snapshotBefore(
+              req,
+              principal,
+              `create proxy ${body.id ?? ""}`.trim()
+            );
+            return await caddy.createReverseProxy(body, takeover);
+          });
+          emitTakenOver(written.takenOver, principal);
+          webhooks.emit(
+            "proxy.created",
+            proxyEventData(written.route, written.server, principal)
+          );
+          return jsonResponse(
+            { ok: true, route: written.route },
+            { status: 201 }
+          );
+        }
+
+        // POST /proxies/sync?dryRun=true
+        if (req.method === "POST" && url.pathname === "/proxies/sync") {
+          requireScope(principal, "proxies:write");
+          const body = validateSyncProxyBody(await readJson(req));
+          requireIdAccess(principal, body.prefix);
+          const summary = (entries: SyncPlanEntry[]) =>
+            Object.fromEntries(
+              (["add", "change", "remove", "unchanged"] as const).map((a) => [
+                a,
+                entries.filter((e) => e.action === a).length,
+              ])
+            );
+          const { server, prefix } = body;
+          if (url.searchParams.get("dryRun") === "true") {
+            const plan = await caddy.planSync(body);
+            return jsonResponse({
+              dryRun: true,
+              server,
+              prefix,
+              summary: summary(plan),
+              plan,
+            });
+          }
+          const { before, results, takenOver } = await caddy.exclusive(
+            async () => {
+              const plan = await caddy.planSync(body);
+              if (plan.some((e) => e.action !== "unchanged"))
+                await snapshotBefore(
+                  req,
+                  principal,
+                  `sync ${server} ${prefix}*`
+                );
+              const before = new Map(
+                (await caddy.listReverseProxies(server)).map((p) => [p.id, p])
+              );
+              return { before, ...(await caddy.applySync(body, plan)) };
+            }
+          );
+          emitTakenOver(takenOver, principal);
+          for (const r of results.filter((r) => r.ok)) {
+            const spec = body.routes.find((d) => d.id === r.id);
+            if (r.action === "add") {
+              const route = buildProxyRoute(r.id, spec!);
+              webhooks.emit(
+                "proxy.created",
+                proxyEventData(route, server, principal)
+              );
+            } else if (r.action === "change" && before.has(r.id)) {
+              const route = buildProxyRoute(
+                r.id,
+                spec!,
+                before.get(r.id)!.route
+              );
+              webhooks.emit(
+                "proxy.updated",
+                proxyEventData(route, server, principal)
+              );
+            } else if (r.action === "remove" && before.has(r.id)) {
+              webhooks.emit(
+                "proxy.deleted",
+                proxyEventData(before.get(r.id)!.route, server, principal)
+              );
+            }
+          }
+          return jsonResponse({
+            dryRun: false,
+            ok: results.every((r) => r.ok),
+            server,
+            prefix,
+            summary: summary(results),
+            results,
+          });
+        }
+
+        // GET, PUT, PATCH, DELETE /proxies/:id
+        const proxyMatch = url.pathname.match(/^\/proxies\/([^\/]+)$/);
+        if (proxyMatch) {
+          const id = decodeURIComponent(proxyMatch[1]!);
+          requireIdAccess(principal, id);
+          if (req.method === "GET") {
+            requireScope(principal, "proxies:read");
+            const proxy = await caddy.getReverseProxy(id);
+            if (!proxy) throw new HttpError(404, "not found");
+            return jsonResponse(proxy);
+          }
+          if (req.method === "PUT" || req.method === "PATCH") {
+            requireScope(principal, "proxies:write");
+            const body = validateUpdateProxyBody(
+              await readJson(req),
+              id,
+              req.method === "PATCH"
+            );
+            const takeover = takeoverFilter(url, principal);
+            const written = await caddy.exclusive(async () => {
+              await snapshotBefore(req, principal, `update proxy ${id}`);
+              return await caddy.updateReverseProxy(
+                id,
+                body,
+                req.method === "PUT",
+                takeover
+              );
+            });
+            emitTakenOver(written.takenOver, principal);
+            webhooks.emit(
+              "proxy.updated",
+              proxyEventData(written.route, written.server, principal)
+            );
+            return jsonResponse({ ok: true, route: written.route });
+          }
+          if (req.method === "DELETE") {
+            requireScope(principal, "proxies:write");
+            const proxy = await caddy.exclusive(async () => {
+              // Only reverse proxy routes, so the event can describe it
+              const proxy = await caddy.getReverseProxy(id);
+              if (!proxy) throw new HttpError(404, "not found");
+              await snapshotBefore(req, principal, `delete proxy ${id}`);
+              const deleted = await caddy.deleteById(id);
+              if (!deleted) throw new HttpError(404, "not found");
+              return proxy;
+            });
+            webhooks.emit(
+              "proxy.deleted",
+              proxyEventData(proxy.route, proxy.server, principal)
+            );
+            return jsonResponse({ ok: true });
+          }
+        }
+
+        // GET /l4proxies?server=mc
+        if (req.method === "GET" && url.pathname === "/l4proxies") {
+          requireScope(principal, "proxies:read");
+          const serverName = url.searchParams.get("server") || undefined;
+          const list = await caddy.listL4Proxies(serverName);
+          return jsonResponse(list.filter((p) => canAccessId(principal, p.id)));
+        }
+
+        // POST /l4proxies
+        if (req.method === "POST" && url.pathname === "/l4proxies") {
+          requireScope(principal, "proxies:write");
+          const body = validateCreateL4ProxyBody(await readJson(req));
+          requireIdAccess(principal, body.id);
+          const route = await caddy.exclusive(async () => {
+            await snapshotBefore(
+              req,
+              principal,
+              `create l4 proxy ${body.id ?? ""}`.trim(),
+              "layer4"
+            );
+            return await caddy.createL4Proxy(body);
+          });
+          return jsonResponse({ ok: true, route }, { status: 201 });
+        }
+
+        // GET, PUT, PATCH, DELETE /l4proxies/:id
+        const l4Match = url.pathname.match(/^\/l4proxies\/([^\/]+)$/);
+        if (l4Match) {
+          const id = decodeURIComponent(l4Match[1]!);
+          requireIdAccess(principal, id);
+          if (req.method === "GET") {
+            requireScope(principal, "proxies:read");
+            const proxy = await caddy.getL4Proxy(id);
+            if (!proxy) throw new HttpError(404, "not found");
+            return jsonResponse(proxy);
+          }
+          if (req.method === "PUT" || req.method === "PATCH") {
+            requireScope(principal, "proxies:write");
+            const body = validateUpdateL4ProxyBody(
+              await readJson(req),
+              id,
+              req.method === "PATCH"
+            );
+            const route = await caddy.exclusive(async () => {
+              await snapshotBefore(
+                req,
+                principal,
+                `update l4 proxy ${id}`,
+                "layer4"
+              );
+              return await caddy.updateL4Proxy(id, body, req.method === "PUT");
+            });
+            return jsonResponse({ ok: true, route });
+          }
+          if (req.method === "DELETE") {
+            requireScope(principal, "proxies:write");
+            await caddy.exclusive(async () => {
+              // Only layer4 routes; /id/<id> would delete any route
+              if (!(await caddy.getL4Proxy(id)))
+                throw new HttpError(404, "not found");
+              await snapshotBefore(
+                req,
+                principal,
+                `delete l4 proxy ${id}`,
+                "layer4"
+              );
+              await caddy.deleteById(id);
+            });
+            return jsonResponse({ ok: true });
+          }
+        }
+
+        // GET /webhooks, POST /webhooks, DELETE /webhooks/:id,
+        // GET /webhooks/:id/deliveries?status=failed&limit=50
+        const webhookMatch = url.pathname.match(
+          /^\/webhooks\/([^\/]+)(?:\/(deliveries))?$/
+        );
+        if (url.pathname === "/webhooks" || webhookMatch) {
+          requireScope(principal, "webhooks:admin");
+          requireAllIds(principal);
+          if (req.method === "GET" && !webhookMatch) {
+            return jsonResponse(
+              webhooks.list().map((w) => serializeWebhook(w))
+            );
+          }
+          if (req.method === "POST" && !webhookMatch) {
+            const input = validateCreateWebhookBody(
+              await readJson(req),
+              WEBHOOK_EVENTS
+            );
+            const hook = await webhooks.create(input);
+            return jsonResponse(
+              { ...serializeWebhook(hook), secret: hook.secret },
+              { status: 201 }
+            );
+          }
+          const id = webhookMatch ? decodeURIComponent(webhookMatch[1]!) : "";
+          if (req.method === "DELETE" && webhookMatch && !webhookMatch[2]) {
+            if (!(await webhooks.delete(id)))
+              throw new HttpError(404, "not found");
+            return jsonResponse({ ok: true });
+          }
+          if (req.method === "GET" && webhookMatch?.[2]) {
+            if (!webhooks.get(id)) throw new HttpError(404, "not found");
+            const { status, limit } = parseDeliveriesQuery(url);
+            const list = webhooks
+              .history(id)
+              .filter((d) => !status || d.status === status);
+            return jsonResponse(list.slice(0, limit));
+          }
+        }
+
+        // GET /audit?since=2024-05-01T00:00:00Z&until=…&target=rp-42&actor=key_…
+        if (req.method === "GET" && url.pathname === "/audit") {
+          requireScope(principal, "audit:read");
+          requireAllIds(principal);
+          return jsonResponse(await audit.query(parseAuditFilter(url)));
+        }
+
+        // GET /snapshots
+        if (req.method === "GET" && url.pathname === "/snapshots") {
+          requireScope(principal, "snapshots:read");
+          requireAllIds(principal);
+          return jsonResponse(snapshots.list());
+        }
+
+        // GET /snapshots/:id/diff?against=<snapshot id>
+        const diffMatch = url.pathname.match(/^\/snapshots\/([^\/]+)\/diff$/);
+        if (req.method === "GET" && diffMatch) {
+          requireScope(principal, "snapshots:read");
+          requireAllIds(principal);
+          const snap = await snapshots.get(decodeURIComponent(diffMatch[1]!));
+          if (!snap) throw new HttpError(404, "not found");
+          const againstId = url.searchParams.get("against");
+          let against: any;
+          if (againstId) {
+            const other = await snapshots.get(againstId);
+            if (!other)
+              throw new HttpError(404, `snapshot ${againstId} not found`);
+            if (other.app !== snap.app)
+              throw new HttpError(
+                400,
+                `snapshot ${againstId} is of the ${other.app} app, not ${snap.app}`
+              );
+            against = other.config;
+          } else {
+            against = await caddy.getApp(snap.app);
+          }
+          const { config, ...meta } = snap;
+          const changes = diffConfig(config, against);
+          return jsonResponse({
+            snapshot: meta,
+            against: againstId || "live",
+            changes,
+          });
+        }
+
+        // POST /snapshots/:id/restore
+        const restoreMatch = url.pathname.match(
+          /^\/snapshots\/([^\/]+)\/restore$/
+        );
+        if (req.method === "POST" && restoreMatch) {
+          requireScope(principal, "snapshots:restore");
+          requireAllIds(principal);
+          const snap = await snapshots.get(
+            decodeURIComponent(restoreMatch[1]!)
+          );
+          if (!snap) throw new HttpError(404, "not found");
+          const before = await caddy.exclusive(async () => {
+            // The restore itself can be undone from this snapshot
+            const before = await snapshotBefore(
+              req,
+              principal,
+              `restore ${snap.id}`,
+              snap.app
+            );
+            await caddy.loadApp(snap.app, snap.config);
+            return before;
+          });
+          return jsonResponse({ ok: true, restored: snap.id, before });
+        }
+
+        return jsonResponse({ error: "not found" }, { status: 404 });
+      } catch (e) {
+        if (e instanceof HttpError) {
+          return jsonResponse({ error: e.message }, { status: e.status });
+        }
+        console.error(e);
+        return jsonResponse({ error: "internal error" }, { status: 500 });
       }
-      console.error(e);
-      return jsonResponse({ error: "internal error" }, { status: 500 });
     }
-  },
+  ),
 });
 
 console.log(
@@ -1,8 +1,79 @@
-import { mkdir, writeFile, rm, stat } from "node:fs/promises";
-import { existsSync } from "node:fs";
+import {
+  mkdir,
+  writeFile,
+  rm,
+  stat,
+  readdir,
+  readFile,
+  readlink,
+} from "node:fs/promises";
+import { existsSync, readFileSync } from "node:fs";
 import path from "node:path";
-
-type JsonRecord = Record<string, unknown>;
+import {
+  ApiKeyStore,
+  assertGrantable,
+  canAccessId,
+  grantError,
+  requireAllIds,
+  requireScope,
+  serializeKey,
+  validateCreateKeyBody,
+  type Principal as KeyPrincipal,
+} from "./lib/api_keys.ts";
+import { AuditLog, auditFetch, parseAuditFilter } from "./lib/audit.ts";
+import {
+  parseDeliveriesQuery,
+  serializeWebhook,
+  validateCreateWebhookBody,
+  WebhookDispatcher,
+} from "./lib/webhooks.ts";
+import {
+  HttpError,
+  jsonResponse,
+  readJson,
+  textResponse,
+  writeFileAtomic,
+  type FieldError,
+} from "./lib/http.ts";
+import { BinaryRegistry, type FrpsBinary } from "./lib/binaries.ts";
+import {
+  DEFAULT_LOG_FILE_OPTIONS,
+  LOG_DIR,
+  LOG_STREAMS,
+  LogBuffer,
+  LogFile,
+  matchesLogQuery,
+  readLogFiles,
+  streamLines,
+  type LogEntry,
+  type LogFileOptions,
+  type LogListener,
+  type LogQuery,
+  type LogStream,
+} from "./lib/logs.ts";
+import {
+  escapeLabelValue,
+  Metrics,
+  writeMetric,
+  type MetricLabels,
+} from "./lib/metrics.ts";
+import { AUTO_PORT, PortAllocator } from "./lib/ports.ts";
+import {
+  DEFAULT_RESTART_OPTIONS,
+  newSupervisorState,
+  planRestart,
+  RESTART_POLICIES,
+  recordRestart,
+  type RestartOptions,
+  type SupervisorState,
+} from "./lib/restart.ts";
+import { RingBuffer } from "./lib/ring_buffer.ts";
+import {
+  generateToml,
+  isPlainObject,
+  parseToml,
+  type JsonRecord,
+} from "./lib/toml.ts";
 
 type ManagedProcessState =
   | { status: "running"; pid: number; startedAt: number }
@@ -14,53 +85,272 @@ type ManagedProcessState =
       signal: string | null;
     };
 
+// What to do with an instance found on disk when the manager starts:
+// - reattach: adopt the recorded pid if it is still our frps, else respawn
+// - respawn: kill any leftover pid and start a fresh process
+// - manual: register the instance as exited and leave it stopped
+type RecoveryPolicy = "reattach" | "respawn" | "manual";
+
+const RECOVERY_POLICIES: RecoveryPolicy[] = ["reattach", "respawn", "manual"];
+
+type CreateInput = {
+  id?: string;
+  binaryPath?: string;
+  frpsVersion?: string;
+  configToml?: string;
+  config?: JsonRecord;
+  env?: Record<string, string>;
+  args?: string[];
+  logLines?: number;
+  logFiles?: Partial<LogFileOptions>;
+  recovery?: RecoveryPolicy;
+  restart?: Partial<RestartOptions>;
+  stats?: boolean;
+  replaceIfExists?: boolean;
+  labels?: Record<string, string>;
+};
+
+type UpdateInput = {
+  configToml?: string;
+  config?: JsonRecord;
+  env?: Record<string, string>;
+  args?: string[];
+  graceMs?: number;
+  timeoutMs?: number;
+  labels?: Record<string, string>;
+  frpsVersion?: string;
+};
+
+// One term of a label selector such as `env=prod,region!=eu,canary,!legacy`
+type LabelRequirement = {
+  key: string;
+  op: "=" | "!=" | "exists" | "!exists";
+  value?: string;
+};
+
+const MAX_LABELS = 32;
+const LABEL_KEY_RE = /^[A-Za-z0-9]([A-Za-z0-9._\/-]{0,62})$/;
+
+// Lifecycle actions that keep the instance, see FrpsManager.stopInstance
+type InstanceAction = "stop" | "start" | "restart";
+
+const INSTANCE_ACTIONS: InstanceAction[] = ["stop", "start", "restart"];
+
+type ActionOptions = {
+  force?: boolean;
+  timeoutMs?: number;
+  graceMs?: number;
+};
+
+// Bulk actions also migrate instances to another frps version
+type BulkAction = InstanceAction | "migrate";
+
+const BULK_ACTIONS: BulkAction[] = [...INSTANCE_ACTIONS, "migrate"];
+
+type BulkActionInput = ActionOptions & {
+  action: BulkAction;
+  // Target version of a migrate action
+  frpsVersion?: string;
+  ids?: string[];
+  selector?: LabelRequirement[];
+  // Instances acted on at once; 1 makes a rolling restart
+  concurrency: number;
+  // Keep going after an instance failed instead of skipping the rest
+  continueOnError: boolean;
+};
+
+type ActionResult =
+  | { id: string; ok: true; state: ManagedProcessState }
+  | { id: string; ok: false; status: number; error: string };
+
+type ConfigRevision = {
+  revision: number;
+  createdAt: number;
+  // Dotted paths of what changed, e.g. config.bindPort, env.FOO, args
+  changes: string[];
+  status: "active" | "superseded" | "rolled-back";
+  reason?: string;
+};
+
+// Caddy route of a tunnel instance, see TunnelManager
+type TunnelRoute = {
+  routeId: string;
+  server: string;
+  hosts: string[];
+  upstreamHost: string;
+  upstream: string;
+};
+
+const REVISIONS_DIR = "revisions";
+const MAX_REVISIONS = 50;
+
+// One /proc reading of a running instance. cpuPercent is relative to one
+// core over the interval since the previous sample of the same pid.
+type UsageSample = {
+  ts: number;
+  pid: number;
+  cpuSeconds: number;
+  cpuPercent: number | null;
+  rssBytes: number;
+  fds: number;
+  threads: number;
+  sockets: number;
+};
+
+const USAGE_INTERVAL_MS = 5000;
+// 5 minutes of history at the default interval
+const USAGE_HISTORY = 60;
+
+// Sort keys of GET /frps?sort=, all descending
+const USAGE_SORT_KEYS = {
+  cpu: "cpuPercent",
+  memory: "rssBytes",
+  fds: "fds",
+  threads: "threads",
+  sockets: "sockets",
+} as const;
+
 type ManagedProcessMeta = {
   id: string;
   binaryPath: string;
+  // Version of the registered binary, null if it was not registered
+  frpsVersion: string | null;
   configPath: string;
   workDir: string;
   args: string[];
   env: Record<string, string>;
+  envOverrides: Record<string, string>;
+  logLines: number;
+  logFiles: LogFileOptions;
+  recovery: RecoveryPolicy;
+  restart: RestartOptions;
+  supervisor: SupervisorState;
+  revision: number;
+  history: ConfigRevision[];
+  createdAt: number;
   state: ManagedProcessState;
-  logBuffer: RingBuffer;
+  logBuffer: LogBuffer;
+  usage: RingBuffer<UsageSample>;
+  tunnel: TunnelRoute | null;
+  labels: Record<string, string>;
 };
 
-class RingBuffer {
-  private readonly capacity: number;
-  private buffer: string[];
-  private index: number;
-  private filled: boolean;
+// On-disk record of an instance, stored as instance.json in its workDir.
+// Only the env overrides are persisted, never the inherited process env.
+type PersistedInstance = {
+  version: 1;
+  id: string;
+  binaryPath: string;
+  frpsVersion?: string | null;
+  configPath: string;
+  args: string[];
+  env: Record<string, string>;
+  logLines: number;
+  logFiles: LogFileOptions;
+  recovery: RecoveryPolicy;
+  restart: RestartOptions;
+  supervisor: SupervisorState;
+  revision: number;
+  history: ConfigRevision[];
+  createdAt: number;
+  state: ManagedProcessState;
+  tunnel: TunnelRoute | null;
+  // Missing in records written before labels existed
+  labels?: Record<string, string>;
+};
 
-  constructor(capacity: number) {
-    this.capacity = Math.max(10, Math.min(capacity, 10000));
-    this.buffer = new Array(this.capacity);
-    this.index = 0;
-    this.filled = false;
-  }
+const INSTANCE_FILE = "instance.json";
 
-  push(line: string) {
-    this.buffer[this.index] = line;
-    this.index = (this.index + 1) % this.capacity;
-    if (this.index === 0) this.filled = true;
+function parsePortPool(raw: string | undefined): {
+  start: number;
+  end: number;
+} {
+  const match = (raw || "20000-29999").match(/^\s*(\d+)\s*-\s*(\d+)\s*$/);
+  const start = Number(match?.[1]);
+  const end = Number(match?.[2]);
+  if (!match || start < 1 || end > 65535 || start > end) {
+    console.error(
+      `ERROR: invalid PORT_POOL '${raw}', expected e.g. 20000-29999`
+    );
+    process.exit(1);
   }
+  return { start, end };
+}
 
-  toArray(limit?: number): string[] {
-    const data = this.filled
-      ? [...this.buffer.slice(this.index), ...this.buffer.slice(0, this.index)]
-      : this.buffer.slice(0, this.index);
-    if (typeof limit === "number" && limit > 0) {
-      return data.slice(Math.max(0, data.length - limit));
-    }
-    return data;
-  }
+// Where binaries are looked for besides runtime/binaries: FRPS_BINARIES
+// (comma-separated files and directories), else the installer's
+// /usr/local/bin/frps, ./frps and frps on PATH
+function binarySources(): string[] {
+  const raw = process.env.FRPS_BINARIES;
+  if (raw)
+    return raw
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean);
+  const onPath = Bun.which("frps");
+  return [
+    "/usr/local/bin/frps",
+    path.join(process.cwd(), "frps"),
+    ...(onPath ? [onPath] : []),
+  ];
 }
 
+const HTTP_DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+// Permissions of an API key. "*" grants every scope.
+const API_SCOPES = [
+  "frps:read",
+  "frps:write",
+  "logs:read",
+  "metrics:read",
+  "audit:read",
+  "webhooks:admin",
+  "keys:admin",
+] as const;
+
+type ApiScope = (typeof API_SCOPES)[number];
+
+type Principal = KeyPrincipal<ApiScope>;
+
+const API_KEYS_FILE = "api-keys.json";
+
+const WEBHOOK_EVENTS = ["frps.started", "frps.exited", "frps.deleted"] as const;
+
+type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+const WEBHOOKS_FILE = "webhooks.json";
+
+const AUDIT_FILE = "audit.jsonl";
+
 class FrpsManager {
   private readonly processes = new Map<string, ManagedProcessMeta>();
+  private readonly monitors = new Map<string, ReturnType<typeof setInterval>>();
+  private readonly retryTimers = new Map<
+    string,
+    ReturnType<typeof setTimeout>
+  >();
+  private readonly stopping = new Set<string>();
+  private readonly restarting = new Set<string>();
+  // Pending instance.json write per id, so writes land in order and forget
+  // can wait for them. Forgotten instances are never written again.
+  private readonly writes = new Map<string, Promise<void>>();
+  private readonly forgotten = new WeakSet<ManagedProcessMeta>();
   private readonly runtimeRoot: string;
+  private readonly ports: PortAllocator;
+  private readonly binaries: BinaryRegistry;
+  private usageTimer: ReturnType<typeof setInterval> | null = null;
+  private shuttingDown = false;
 
-  constructor(runtimeRoot: string) {
+  constructor(
+    runtimeRoot: string,
+    ports: PortAllocator,
+    binaries: BinaryRegistry
+  ) {
     this.runtimeRoot = runtimeRoot;
+    this.ports = ports;
+    this.binaries = binaries;
   }
 
   list(): Array<ManagedProcessMeta> {
@@ -71,25 +361,77 @@ class FrpsManager {
     return this.processes.get(id);
   }
 
+  // Log directory of an instance, which outlives the instance unless it was
+  // deleted with purge
+  logDir(id: string): string {
+    return path.join(this.runtimeRoot, `frps-${id}`, LOG_DIR);
+  }
+
+  // Whether more output can still be expected: the process is running or the
+  // supervisor is about to start it again
+  isLive(meta: ManagedProcessMeta): boolean {
+    return (
+      this.processes.get(meta.id) === meta &&
+      (meta.state.status === "running" || meta.supervisor.nextRetryAt !== null)
+    );
+  }
+
+  // Replay buffered lines, then deliver new ones until the process exits or
+  // is deleted. Returns a function that detaches the listener.
+  follow(
+    meta: ManagedProcessMeta,
+    options: { afterSeq?: number; limit?: number } & LogQuery,
+    listener: LogListener
+  ): () => void {
+    const { afterSeq, limit, stream, grep } = options;
+    const filter: LogQuery = { stream, grep };
+    const backlog = meta.logBuffer
+      .entries({ afterSeq })
+      .filter((e) => matchesLogQuery(e, filter));
+    const replay =
+      typeof limit === "number" && limit > 0 ? backlog.slice(-limit) : backlog;
+    for (const entry of replay) listener.onLine(entry);
+    if (!this.isLive(meta)) {
+      listener.onEnd(
+        this.processes.get(meta.id) === meta ? "exited" : "deleted"
+      );
+      return () => {};
+    }
+    return meta.logBuffer.subscribe({
+      onLine: (entry) => {
+        if (matchesLogQuery(entry, filter)) listener.onLine(entry);
+      },
+      onEnd: listener.onEnd,
+    });
+  }
+
   async stop(
     id: string,
-    options?: { force?: boolean; timeoutMs?: number; purge?: boolean }
+    options?: {
+      force?: boolean;
+      timeoutMs?: number;
+      purge?: boolean;
+      keepRecord?: boolean;
+    }
   ): Promise<boolean> {
     const meta = this.processes.get(id);
     if (!meta) return false;
 
-    const { force = false, timeoutMs = 3000, purge = false } = options ?? {};
+    const {
+      force = false,
+      timeoutMs = 3000,
+      purge = false,
+      keepRecord = false,
+    } = options ?? {};
 
     if (meta.state.status !== "running") {
       this.processes.delete(id);
-      if (purge) {
-        try {
-          await rm(meta.workDir, { recursive: true, force: true });
-        } catch {}
-      }
+      await this.forget(meta, { purge, keepRecord });
+      if (!keepRecord) webhooks.emit("frps.deleted", { id, purged: purge });
       return true;
     }
 
+    this.stopping.add(id);
     try {
       // Send SIGTERM first
       process.kill(meta.state.pid, "SIGTERM");
@@ -116,171 +458,1846 @@ class FrpsManager {
 
     // Remove from registry regardless to reflect deletion intent
     this.processes.delete(id);
-    if (purge) {
-      try {
-        await rm(meta.workDir, { recursive: true, force: true });
-      } catch {}
-    }
+    await this.forget(meta, { purge, keepRecord });
+    if (!keepRecord) webhooks.emit("frps.deleted", { id, purged: purge });
 
     return !alive;
   }
 
-  async create(input: {
-    id?: string;
-    binaryPath?: string;
-    configToml?: string;
-    config?: JsonRecord;
-    env?: Record<string, string>;
-    args?: string[];
-    logLines?: number;
-    replaceIfExists?: boolean;
-  }): Promise<ManagedProcessMeta> {
+  async setTunnel(
+    id: string,
+    tunnel: TunnelRoute | null
+  ): Promise<ManagedProcessMeta> {
+    const meta = this.processes.get(id);
+    if (!meta) throw new HttpError(404, "not found");
+    meta.tunnel = tunnel;
+    await this.persist(meta);
+    return meta;
+  }
+
+  // Sample the /proc usage of every running instance periodically
+  startUsageSampling() {
+    if (this.usageTimer) return;
+    this.usageTimer = setInterval(() => {
+      void this.sampleUsage();
+    }, USAGE_INTERVAL_MS);
+  }
+
+  private async sampleUsage() {
+    const running = [...this.processes.values()].filter(
+      (m) => m.state.status === "running"
+    );
+    await Promise.all(
+      running.map(async (meta) => {
+        if (meta.state.status !== "running") return;
+        const prev = meta.usage.toArray(1)[0];
+        // The process may be gone between the check and the read
+        const sample = await readProcUsage(meta.state.pid, prev).catch(
+          () => null
+        );
+        if (sample) meta.usage.push(sample);
+      })
+    );
+  }
+
+  // Stop every process for a manager shutdown. Records are left untouched,
+  // still marked running, so the instances are recovered on the next start.
+  async shutdown(): Promise<void> {
+    this.shuttingDown = true;
+    if (this.usageTimer) clearInterval(this.usageTimer);
+    const ids = [...this.processes.keys()];
+    await Promise.all(
+      ids.map((id) => this.stop(id, { force: true, keepRecord: true }))
+    );
+  }
+
+  async create(input: CreateInput): Promise<ManagedProcessMeta> {
     const id = input.id ?? crypto.randomUUID();
 
-    if (this.processes.has(id)) {
-      if (input.replaceIfExists) {
-        await this.stop(id, { force: true, timeoutMs: 1000 });
-      } else {
+    const existing = this.processes.get(id);
+    if (existing) {
+      if (existing.tunnel)
+        throw new HttpError(409, `frps ${id} belongs to a tunnel`);
+      if (!input.replaceIfExists)
         throw new HttpError(409, `frps with id ${id} already exists`);
-      }
     }
 
-    const binaryPath = input.binaryPath ?? path.join(process.cwd(), "frps");
-    await assertBinaryExists(binaryPath);
+    // Everything that can reject the request runs before a replaced
+    // instance is stopped. Ports the old instance holds do not conflict.
+    const binary = await this.binaries.resolve(input);
+    const configToml = await this.claimPorts(id, createBodyToml(input));
+    try {
+      assertValidFrpsConfig(configToml);
+    } catch (e) {
+      if (existing) await this.restorePorts(existing);
+      else this.ports.release(id);
+      throw e;
+    }
 
+    if (existing) {
+      await this.stop(id, { force: true, timeoutMs: 1000 });
+      // Stopping released the id's ports, including the new claims
+      this.ports.restore(id, Bun.TOML.parse(configToml) as JsonRecord);
+    }
+    try {
+      return await this.start(id, binary, configToml, input);
+    } catch (e) {
+      this.ports.release(id);
+      throw e;
+    }
+  }
+
+  private async start(
+    id: string,
+    binary: FrpsBinary,
+    configToml: string,
+    input: {
+      env?: Record<string, string>;
+      args?: string[];
+      logLines?: number;
+      logFiles?: Partial<LogFileOptions>;
+      recovery?: RecoveryPolicy;
+      restart?: Partial<RestartOptions>;
+      labels?: Record<string, string>;
+    }
+  ): Promise<ManagedProcessMeta> {
     const workDir = path.join(this.runtimeRoot, `frps-${id}`);
     await mkdir(workDir, { recursive: true });
 
     const configPath = path.join(workDir, "frps.toml");
-    if (input.configToml) {
-      await writeFile(configPath, input.configToml, "utf8");
-    } else {
-      const configToml = generateToml(input.config ?? {});
-      await writeFile(configPath, configToml, "utf8");
-    }
+    await writeFile(configPath, configToml, "utf8");
 
     const args =
       input.args && input.args.length > 0 ? input.args : ["-c", configPath];
-    const env = { ...process.env, ...(input.env ?? {}) } as Record<
-      string,
-      string
-    >;
-
-    const child = Bun.spawn([binaryPath, ...args], {
-      cwd: workDir,
-      env,
-      stdout: "pipe",
-      stderr: "pipe",
-    });
-
-    const logBuffer = new RingBuffer(input.logLines ?? 1000);
-    const startedAt = Date.now();
+    const envOverrides = input.env ?? {};
+    const logLines = input.logLines ?? 1000;
+    const logFiles = { ...DEFAULT_LOG_FILE_OPTIONS, ...input.logFiles };
 
     const meta: ManagedProcessMeta = {
       id,
-      binaryPath,
+      binaryPath: binary.path,
+      frpsVersion: binary.version,
       configPath,
       workDir,
       args,
-      env,
-      state: { status: "running", pid: child.pid, startedAt },
-      logBuffer,
+      env: buildEnv(envOverrides),
+      envOverrides,
+      logLines,
+      logFiles,
+      recovery: input.recovery ?? "reattach",
+      restart: { ...DEFAULT_RESTART_OPTIONS, ...input.restart },
+      supervisor: newSupervisorState(),
+      revision: 1,
+      history: [
+        { revision: 1, createdAt: Date.now(), changes: [], status: "active" },
+      ],
+      createdAt: Date.now(),
+      state: {
+        status: "exited",
+        startedAt: 0,
+        exitedAt: 0,
+        exitCode: null,
+        signal: null,
+      },
+      logBuffer: openLogBuffer(workDir, logLines, logFiles),
+      usage: new RingBuffer<UsageSample>(USAGE_HISTORY),
+      tunnel: null,
+      labels: input.labels ?? {},
     };
+    await this.saveRevision(meta, 1, configToml);
+    this.spawn(meta);
     this.processes.set(id, meta);
+    await this.persist(meta);
+
+    return meta;
+  }
+
+  // Apply a new config, env or args to an instance. A running instance is
+  // restarted gracefully; if the new revision exits within the grace period,
+  // the previous one is restored and started again.
+  async update(id: string, input: UpdateInput): Promise<ManagedProcessMeta> {
+    const meta = this.processes.get(id);
+    if (!meta) throw new HttpError(404, "not found");
+    if (this.restarting.has(id))
+      throw new HttpError(409, `frps ${id} is already being updated`);
+
+    try {
+      await this.applyUpdate(meta, input);
+    } catch (e) {
+      // Whatever failed, the ports of the config on disk are the ones held
+      await this.restorePorts(meta);
+      throw e;
+    }
+    // Labels change without a new revision or a restart
+    if (input.labels !== undefined) {
+      meta.labels = input.labels;
+      await this.persist(meta);
+    }
+    return meta;
+  }
+
+  // Stop the process but keep the instance with its config, ports and logs.
+  // The supervisor leaves it stopped until it is started again.
+  async stopInstance(
+    id: string,
+    options: ActionOptions = {}
+  ): Promise<ManagedProcessMeta> {
+    const meta = this.processes.get(id);
+    if (!meta) throw new HttpError(404, "not found");
+    if (this.restarting.has(id))
+      throw new HttpError(409, `frps ${id} is being updated or restarted`);
+    const { force = false, timeoutMs = 3000 } = options;
+
+    this.clearRetry(id);
+    if (meta.state.status !== "running") {
+      // A pending supervisor restart is cancelled as well
+      if (meta.supervisor.nextRetryAt !== null) {
+        meta.supervisor.nextRetryAt = null;
+        meta.logBuffer.push("manager", "stopped through the API");
+        meta.logBuffer.end("exited");
+        await this.persist(meta);
+      }
+      return meta;
+    }
+
+    const { pid } = meta.state;
+    this.stopping.add(id);
+    meta.logBuffer.push("manager", "stopping through the API");
+    try {
+      process.kill(pid, "SIGTERM");
+    } catch {}
+    if (!(await this.waitForExit(meta, timeoutMs)) && force) {
+      try {
+        process.kill(pid, "SIGKILL");
+      } catch {}
+      await this.waitForExit(meta, 2000);
+    }
+    // Still marked as stopping, so a late exit is not restarted either
+    if (meta.state.status === "running")
+      throw new HttpError(
+        409,
+        `frps ${id} did not exit within ${timeoutMs}ms; retry with force=true`
+      );
+    this.stopping.delete(id);
+    return meta;
+  }
+
+  // Start a stopped instance. Starting a running one changes nothing.
+  async startInstance(
+    id: string,
+    options: ActionOptions = {}
+  ): Promise<ManagedProcessMeta> {
+    const meta = this.processes.get(id);
+    if (!meta) throw new HttpError(404, "not found");
+    if (meta.state.status === "running") return meta;
+    return this.relaunch(meta, "started through the API", options);
+  }
+
+  async restartInstance(
+    id: string,
+    options: ActionOptions = {}
+  ): Promise<ManagedProcessMeta> {
+    const meta = this.processes.get(id);
+    if (!meta) throw new HttpError(404, "not found");
+    return this.relaunch(meta, "restarting through the API", options);
+  }
+
+  // (Re)start the process with a fresh supervisor state. A process that
+  // exits within the grace period fails the request with 422 and is left
+  // stopped rather than handed to the supervisor.
+  private async relaunch(
+    meta: ManagedProcessMeta,
+    message: string,
+    options: ActionOptions
+  ): Promise<ManagedProcessMeta> {
+    const { id } = meta;
+    if (this.restarting.has(id))
+      throw new HttpError(409, `frps ${id} is being updated or restarted`);
+    await this.checkBinary(meta);
+
+    this.restarting.add(id);
+    try {
+      this.stopping.delete(id);
+      Object.assign(meta.supervisor, {
+        consecutiveRestarts: 0,
+        recentRestarts: [],
+        gaveUp: null,
+      });
+      meta.logBuffer.push("manager", message);
+      await this.restartProcess(meta, options.timeoutMs ?? 3000);
+      const failure = await this.waitForStartup(meta, options.graceMs ?? 3000);
+      if (failure) {
+        meta.logBuffer.end("exited");
+        throw new HttpError(422, `frps ${id} ${failure}`);
+      }
+      return meta;
+    } finally {
+      this.restarting.delete(id);
+      await this.persist(meta);
+    }
+  }
+
+  private async applyUpdate(
+    meta: ManagedProcessMeta,
+    input: UpdateInput
+  ): Promise<ManagedProcessMeta> {
+    const { id } = meta;
+    const prevToml = await readFile(meta.configPath, "utf8").catch(() => "");
+    const requestedToml =
+      input.configToml ??
+      (input.config !== undefined ? generateToml(input.config) : prevToml);
+    const nextToml =
+      requestedToml === prevToml
+        ? prevToml
+        : await this.claimPorts(id, requestedToml);
+    // An unchanged config was accepted when it was written, so only a new
+    // one is checked.
+    if (nextToml !== prevToml) assertValidFrpsConfig(nextToml);
+    const binary =
+      input.frpsVersion !== undefined
+        ? await this.binaries.resolve({ frpsVersion: input.frpsVersion })
+        : null;
+    if (binary === null && this.isLive(meta)) await this.checkBinary(meta);
+
+    const prev = {
+      args: meta.args,
+      envOverrides: meta.envOverrides,
+      binaryPath: meta.binaryPath,
+      frpsVersion: meta.frpsVersion,
+    };
+    const next = {
+      binaryPath: binary?.path ?? meta.binaryPath,
+      frpsVersion: binary ? binary.version : meta.frpsVersion,
+      args:
+        input.args === undefined
+          ? meta.args
+          : input.args.length > 0
+          ? input.args
+          : ["-c", meta.configPath],
+      envOverrides: input.env ?? meta.envOverrides,
+    };
+
+    const changes = [
+      ...diffConfigPaths(prevToml, nextToml),
+      ...diffEnvKeys(prev.envOverrides, next.envOverrides),
+      ...(JSON.stringify(prev.args) !== JSON.stringify(next.args)
+        ? ["args"]
+        : []),
+      ...(prev.binaryPath !== next.binaryPath ? ["frpsVersion"] : []),
+    ];
+    if (changes.length === 0) return meta;
+
+    const revision = meta.revision + 1;
+    const entry: ConfigRevision = {
+      revision,
+      createdAt: Date.now(),
+      changes,
+      status: "active",
+    };
+
+    this.restarting.add(id);
+    try {
+      await this.saveRevision(meta, revision, nextToml);
+      await writeFileAtomic(meta.configPath, nextToml);
+      meta.args = next.args;
+      meta.envOverrides = next.envOverrides;
+      meta.env = buildEnv(next.envOverrides);
+      meta.binaryPath = next.binaryPath;
+      meta.frpsVersion = next.frpsVersion;
+
+      const wasLive = this.isLive(meta);
+      if (wasLive) {
+        meta.logBuffer.push("manager", `restarting for revision ${revision}`);
+        await this.restartProcess(meta, input.timeoutMs ?? 3000);
+        const failure = await this.waitForStartup(meta, input.graceMs ?? 3000);
+        if (failure) {
+          meta.logBuffer.push(
+            "manager",
+            `revision ${revision} ${failure}, rolling back to revision ${meta.revision}`
+          );
+          await writeFileAtomic(meta.configPath, prevToml);
+          meta.args = prev.args;
+          meta.envOverrides = prev.envOverrides;
+          meta.env = buildEnv(prev.envOverrides);
+          meta.binaryPath = prev.binaryPath;
+          meta.frpsVersion = prev.frpsVersion;
+          await this.restartProcess(meta, input.timeoutMs ?? 3000);
+          this.pushRevision(meta, {
+            ...entry,
+            status: "rolled-back",
+            reason: failure,
+          });
+          await this.persist(meta);
+          throw new HttpError(
+            422,
+            `revision ${revision} ${failure}; rolled back to revision ${meta.revision}`,
+            { revision, rolledBackTo: meta.revision }
+          );
+        }
+      }
+
+      for (const h of meta.history)
+        if (h.status === "active") h.status = "superseded";
+      meta.revision = revision;
+      this.pushRevision(meta, entry);
+      meta.logBuffer.push("manager", `revision ${revision} applied`);
+      await this.persist(meta);
+      return meta;
+    } finally {
+      this.restarting.delete(id);
+    }
+  }
+
+  // Stop the current process, if any, and start it again without leaving
+  // the registry. Followers and the supervisor see no exit in between.
+  private async restartProcess(meta: ManagedProcessMeta, timeoutMs: number) {
+    this.clearRetry(meta.id);
+    meta.supervisor.nextRetryAt = null;
+    if (meta.state.status === "running") {
+      const { pid } = meta.state;
+      try {
+        process.kill(pid, "SIGTERM");
+      } catch {}
+      if (!(await this.waitForExit(meta, timeoutMs))) {
+        try {
+          process.kill(pid, "SIGKILL");
+        } catch {}
+        await this.waitForExit(meta, 2000);
+      }
+    }
+    this.spawn(meta);
+  }
+
+  // Resolves to a failure reason if the process exits within the grace
+  // period, or null if it is still running afterwards
+  private async waitForStartup(
+    meta: ManagedProcessMeta,
+    graceMs: number
+  ): Promise<string | null> {
+    if (await this.waitForExit(meta, graceMs))
+      return meta.supervisor.lastExitReason ?? "exited during startup";
+    return null;
+  }
+
+  private async waitForExit(
+    meta: ManagedProcessMeta,
+    timeoutMs: number
+  ): Promise<boolean> {
+    const startWait = Date.now();
+    while (Date.now() - startWait < timeoutMs) {
+      if (meta.state.status === "exited") return true;
+      await Bun.sleep(50);
+    }
+    return meta.state.status === "exited";
+  }
+
+  private async saveRevision(
+    meta: ManagedProcessMeta,
+    revision: number,
+    toml: string
+  ) {
+    const dir = path.join(meta.workDir, REVISIONS_DIR);
+    await mkdir(dir, { recursive: true });
+    await writeFile(path.join(dir, `${revision}.toml`), toml, "utf8");
+  }
+
+  private pushRevision(meta: ManagedProcessMeta, entry: ConfigRevision) {
+    meta.history.push(entry);
+    const dropped = meta.history.splice(
+      0,
+      Math.max(0, meta.history.length - MAX_REVISIONS)
+    );
+    for (const old of dropped) {
+      void rm(path.join(meta.workDir, REVISIONS_DIR, `${old.revision}.toml`), {
+        force: true,
+      }).catch(() => {});
+    }
+  }
+
+  async readRevision(
+    meta: ManagedProcessMeta,
+    revision: number
+  ): Promise<string | null> {
+    const file = path.join(meta.workDir, REVISIONS_DIR, `${revision}.toml`);
+    return readFile(file, "utf8").catch(() => null);
+  }
+
+  // Claim the config's ports for the instance and fill in "auto" ports.
+  // Configs that are not valid TOML are left to validation to report.
+  private async claimPorts(id: string, configToml: string): Promise<string> {
+    let config: JsonRecord;
+    try {
+      config = Bun.TOML.parse(configToml) as JsonRecord;
+    } catch {
+      return configToml;
+    }
+    const resolved = await this.ports.claim(id, config);
+    return JSON.stringify(resolved) === JSON.stringify(config)
+      ? configToml
+      : generateToml(resolved);
+  }
+
+  // Port assignments a config would get, for dry runs
+  async previewPorts(configToml: string): Promise<string> {
+    let config: JsonRecord;
+    try {
+      config = Bun.TOML.parse(configToml) as JsonRecord;
+    } catch {
+      return configToml;
+    }
+    const resolved = await this.ports.preview(config);
+    return JSON.stringify(resolved) === JSON.stringify(config)
+      ? configToml
+      : generateToml(resolved);
+  }
+
+  private async restorePorts(meta: ManagedProcessMeta) {
+    const toml = await readFile(meta.configPath, "utf8").catch(() => "");
+    try {
+      this.ports.restore(meta.id, Bun.TOML.parse(toml) as JsonRecord);
+    } catch {
+      this.ports.release(meta.id);
+    }
+  }
+
+  // Rebuild the registry from instance records left in the runtime dir and
+  // bring each instance back according to its recovery policy.
+  async recover(): Promise<void> {
+    const entries = await readdir(this.runtimeRoot, {
+      withFileTypes: true,
+    }).catch(() => []);
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || !entry.name.startsWith("frps-")) continue;
+      const workDir = path.join(this.runtimeRoot, entry.name);
+      const record = await readInstanceRecord(workDir);
+      if (!record || this.processes.has(record.id)) continue;
+
+      const meta: ManagedProcessMeta = {
+        id: record.id,
+        binaryPath: record.binaryPath,
+        frpsVersion:
+          record.frpsVersion ??
+          this.binaries.byPath(record.binaryPath)?.version ??
+          null,
+        configPath: record.configPath,
+        workDir,
+        args: record.args,
+        env: buildEnv(record.env),
+        envOverrides: record.env,
+        logLines: record.logLines,
+        logFiles: record.logFiles,
+        recovery: record.recovery,
+        restart: record.restart,
+        supervisor: record.supervisor,
+        revision: record.revision,
+        history: record.history,
+        createdAt: record.createdAt,
+        state: record.state,
+        logBuffer: openLogBuffer(workDir, record.logLines, record.logFiles),
+        usage: new RingBuffer<UsageSample>(USAGE_HISTORY),
+        tunnel: record.tunnel,
+        labels: record.labels ?? {},
+      };
+      this.processes.set(meta.id, meta);
+      await this.restorePorts(meta);
+
+      try {
+        await this.recoverOne(meta);
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        meta.logBuffer.push("manager", `recovery failed: ${message}`);
+        console.error(`Failed to recover frps ${meta.id}: ${message}`);
+      }
+      await this.persist(meta);
+    }
+  }
+
+  private async recoverOne(meta: ManagedProcessMeta): Promise<void> {
+    const prev = meta.state;
+    // Instances that had already exited before the restart stay stopped,
+    // unless the supervisor still had a retry pending for them
+    if (prev.status !== "running") {
+      const { nextRetryAt } = meta.supervisor;
+      if (nextRetryAt !== null && meta.recovery !== "manual")
+        this.scheduleRestart(meta, Math.max(0, nextRetryAt - Date.now()));
+      return;
+    }
+
+    const leftover = isOwnFrps(prev.pid, meta.binaryPath, meta.args)
+      ? prev.pid
+      : undefined;
+
+    if (meta.recovery === "reattach" && leftover !== undefined) {
+      this.reattach(meta, leftover);
+      return;
+    }
+
+    if (leftover !== undefined) {
+      try {
+        process.kill(leftover, "SIGKILL");
+      } catch {}
+    }
+
+    meta.state = {
+      status: "exited",
+      startedAt: prev.startedAt,
+      exitedAt: Date.now(),
+      exitCode: null,
+      signal: null,
+    };
+
+    if (meta.recovery === "manual") {
+      meta.logBuffer.push("manager", "recovered as stopped (recovery: manual)");
+      return;
+    }
+
+    await this.checkBinary(meta);
+    this.spawn(meta);
+    meta.logBuffer.push("manager", "respawned after manager restart");
+  }
+
+  // Make sure the binary still is the version the instance is pinned to.
+  // If the file was replaced, e.g. by the installer upgrading
+  // /usr/local/bin/frps, switch to a registered binary of that version, or
+  // refuse to start.
+  private async checkBinary(meta: ManagedProcessMeta) {
+    if (meta.frpsVersion === null) {
+      await assertBinaryExists(meta.binaryPath);
+      return;
+    }
+    await this.binaries.scan();
+    const current = this.binaries.byPath(meta.binaryPath)?.version ?? null;
+    if (current === meta.frpsVersion) return;
+    const binary = this.binaries
+      .list()
+      .find((b) => b.version === meta.frpsVersion);
+    if (!binary)
+      throw new HttpError(
+        409,
+        `frps ${meta.id} is pinned to version ${meta.frpsVersion}, but ${
+          meta.binaryPath
+        } is ${
+          current === null ? "not a registered binary" : `version ${current}`
+        } and no registered binary has that version; see GET /binaries`
+      );
+    const pinned = await this.binaries.pin(binary);
+    meta.logBuffer.push(
+      "manager",
+      `${meta.binaryPath} is no longer version ${meta.frpsVersion}, using ${pinned.path}`
+    );
+    meta.binaryPath = pinned.path;
+  }
+
+  private spawn(meta: ManagedProcessMeta) {
+    const child = Bun.spawn([meta.binaryPath, ...meta.args], {
+      cwd: meta.workDir,
+      env: meta.env,
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+
+    const { id, logBuffer } = meta;
+    const startedAt = Date.now();
+    meta.state = { status: "running", pid: child.pid, startedAt };
+    webhooks.emit("frps.started", {
+      id,
+      pid: child.pid,
+      revision: meta.revision,
+    });
 
     // Stream logs
-    void streamLines(child.stdout, (line) =>
-      logBuffer.push(`[stdout] ${line}`)
+    const stdoutDone = streamLines(child.stdout, (line) =>
+      logBuffer.push("stdout", line)
     );
-    void streamLines(child.stderr, (line) =>
-      logBuffer.push(`[stderr] ${line}`)
+    const stderrDone = streamLines(child.stderr, (line) =>
+      logBuffer.push("stderr", line)
     );
 
-    // Track exit
-    child.exited.then(() => {
-      const exitedAt = Date.now();
-      const exitCode = child.exitCode;
-      const prev = this.processes.get(id);
-      if (!prev) return;
-      prev.state = {
-        status: "exited",
-        startedAt,
-        exitedAt,
-        exitCode,
-        signal: null,
+    // Track exit once the last output lines have been read, so followers
+    // see them before the end of the stream
+    Promise.allSettled([child.exited, stdoutDone, stderrDone]).then(() => {
+      this.onExit(id, child.pid, child.exitCode, child.signalCode);
+    });
+  }
+
+  // Adopt a process started by a previous manager run. Its output pipes died
+  // with that run, so only liveness can be tracked, by polling the pid.
+  private reattach(meta: ManagedProcessMeta, pid: number) {
+    if (meta.state.status !== "running")
+      meta.state = { status: "running", pid, startedAt: Date.now() };
+    meta.logBuffer.push(
+      "manager",
+      `reattached to pid ${pid}; output from before the restart is unavailable`
+    );
+
+    const timer = setInterval(() => {
+      if (isProcessAlive(pid)) return;
+      clearInterval(timer);
+      this.monitors.delete(meta.id);
+      // Not our child, so the exit status cannot be collected
+      this.onExit(meta.id, pid, null, null);
+    }, 1000);
+    this.monitors.set(meta.id, timer);
+  }
+
+  private onExit(
+    id: string,
+    pid: number,
+    exitCode: number | null,
+    signal: string | null
+  ) {
+    const meta = this.processes.get(id);
+    if (!meta) return;
+    if (meta.state.status !== "running" || meta.state.pid !== pid) return;
+
+    const exitedAt = Date.now();
+    const { startedAt } = meta.state;
+    meta.state = { status: "exited", startedAt, exitedAt, exitCode, signal };
+    meta.supervisor.lastExitReason = describeExit(exitCode, signal);
+    meta.logBuffer.push("manager", `process ${meta.supervisor.lastExitReason}`);
+    metrics.inc("frps_manager_instance_exits_total", {
+      instance: id,
+      code: exitCode !== null ? String(exitCode) : signal ?? "unknown",
+    });
+    webhooks.emit("frps.exited", {
+      id,
+      pid,
+      exitCode,
+      signal,
+      reason: meta.supervisor.lastExitReason,
+      uptimeMs: exitedAt - startedAt,
+      // Stopped through the API, for an update or a manager shutdown
+      requested:
+        this.stopping.has(id) || this.restarting.has(id) || this.shuttingDown,
+    });
+
+    if (this.shuttingDown) {
+      meta.logBuffer.end("shutdown");
+      return;
+    }
+    // An update restarts the process itself
+    if (this.restarting.has(id)) {
+      void this.persist(meta);
+      return;
+    }
+    if (!this.stopping.has(id)) {
+      this.maybeRestart(meta, {
+        failed: exitCode !== 0,
+        uptimeMs: exitedAt - startedAt,
+      });
+    }
+    if (meta.supervisor.nextRetryAt === null) meta.logBuffer.end("exited");
+    void this.persist(meta);
+  }
+
+  private maybeRestart(
+    meta: ManagedProcessMeta,
+    exit: { failed: boolean; uptimeMs: number }
+  ) {
+    const decision = planRestart(meta.restart, meta.supervisor, exit);
+    if (decision.action === "give-up") this.giveUp(meta, decision.reason);
+    else if (decision.action === "restart")
+      this.scheduleRestart(meta, decision.delayMs);
+  }
+
+  private scheduleRestart(meta: ManagedProcessMeta, delayMs: number) {
+    const { id, supervisor } = meta;
+    supervisor.nextRetryAt = Date.now() + delayMs;
+    supervisor.gaveUp = null;
+    meta.logBuffer.push("manager", `restarting in ${delayMs}ms`);
+
+    const timer = setTimeout(async () => {
+      this.retryTimers.delete(id);
+      const binaryError = await this.checkBinary(meta).then(
+        () => null,
+        (e: unknown) => e
+      );
+      // Deleted, started or stopped while the binary was checked
+      if (this.processes.get(id) !== meta) return;
+      if (meta.state.status === "running") return;
+      if (supervisor.nextRetryAt === null) return;
+
+      recordRestart(supervisor);
+      try {
+        if (binaryError) throw binaryError;
+        this.spawn(meta);
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        supervisor.lastExitReason = `spawn failed: ${message}`;
+        meta.logBuffer.push("manager", supervisor.lastExitReason);
+        this.maybeRestart(meta, { failed: true, uptimeMs: 0 });
+        if (supervisor.nextRetryAt === null) meta.logBuffer.end("exited");
+      }
+      void this.persist(meta);
+    }, delayMs);
+    this.retryTimers.set(id, timer);
+  }
+
+  private clearRetry(id: string) {
+    const retry = this.retryTimers.get(id);
+    if (retry) {
+      clearTimeout(retry);
+      this.retryTimers.delete(id);
+    }
+  }
+
+  private giveUp(meta: ManagedProcessMeta, reason: string) {
+    meta.supervisor.gaveUp = reason;
+    meta.supervisor.nextRetryAt = null;
+    meta.logBuffer.push("manager", `not restarting: ${reason}`);
+  }
+
+  private persist(meta: ManagedProcessMeta): Promise<void> {
+    if (this.forgotten.has(meta)) return Promise.resolve();
+    const write = (this.writes.get(meta.id) ?? Promise.resolve()).then(() =>
+      this.writeRecord(meta)
+    );
+    this.writes.set(meta.id, write);
+    void write.then(() => {
+      if (this.writes.get(meta.id) === write) this.writes.delete(meta.id);
+    });
+    return write;
+  }
+
+  private async writeRecord(meta: ManagedProcessMeta): Promise<void> {
+    if (this.forgotten.has(meta)) return;
+    const record: PersistedInstance = {
+      version: 1,
+      id: meta.id,
+      binaryPath: meta.binaryPath,
+      frpsVersion: meta.frpsVersion,
+      configPath: meta.configPath,
+      args: meta.args,
+      env: meta.envOverrides,
+      logLines: meta.logLines,
+      logFiles: meta.logFiles,
+      recovery: meta.recovery,
+      restart: meta.restart,
+      supervisor: meta.supervisor,
+      revision: meta.revision,
+      history: meta.history,
+      createdAt: meta.createdAt,
+      state: meta.state,
+      tunnel: meta.tunnel,
+      labels: meta.labels,
+    };
+    const file = path.join(meta.workDir, INSTANCE_FILE);
+    try {
+      await writeFileAtomic(file, JSON.stringify(record, null, 2));
+    } catch (e) {
+      console.error(`Failed to persist frps ${meta.id}:`, e);
+    }
+  }
+
+  private async forget(
+    meta: ManagedProcessMeta,
+    options: { purge: boolean; keepRecord: boolean }
+  ): Promise<void> {
+    // A write still in flight must not bring a deleted record back
+    this.forgotten.add(meta);
+    await this.writes.get(meta.id);
+    const timer = this.monitors.get(meta.id);
+    if (timer) {
+      clearInterval(timer);
+      this.monitors.delete(meta.id);
+    }
+    this.clearRetry(meta.id);
+    this.stopping.delete(meta.id);
+    if (!options.keepRecord) this.ports.release(meta.id);
+    meta.logBuffer.end(options.keepRecord ? "shutdown" : "deleted");
+    meta.logBuffer.close();
+    if (options.purge) {
+      try {
+        await rm(meta.workDir, { recursive: true, force: true });
+      } catch {}
+      return;
+    }
+    if (options.keepRecord) return;
+    try {
+      await rm(path.join(meta.workDir, INSTANCE_FILE), { force: true });
+    } catch {}
+  }
+}
+
+// Tunnel routes are created through the caddy manager's API
+// (caddy_manager.ts), so they get its host conflict checks, snapshots,
+// webhooks and audit records
+class CaddyManagerClient {
+  private readonly baseUrl: string;
+  private readonly token: string;
+  private readonly timeoutMs: number;
+
+  constructor(baseUrl: string, token: string, timeoutMs = 10_000) {
+    this.baseUrl = baseUrl.replace(/\/$/, "");
+    this.token = token;
+    this.timeoutMs = timeoutMs;
+  }
+
+  // `reason` is recorded with the snapshot the caddy manager takes before
+  // the change
+  private async fetch(
+    method: string,
+    path: string,
+    reason: string,
+    body?: unknown
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const headers: Record<string, string> = {
+        "content-type": "application/json",
+        "x-change-reason": reason,
       };
+      if (this.token) headers.Authorization = `Bearer ${this.token}`;
+      return await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      throw new HttpError(502, `caddy manager unreachable: ${message}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Host conflicts (409) and bad input like an unknown server (400) are
+  // passed on; anything else is the caddy manager's problem (502)
+  private async fail(res: Response, what: string): Promise<never> {
+    const text = await res.text().catch(() => "");
+    let message = text;
+    try {
+      message = JSON.parse(text).error ?? text;
+    } catch {}
+    const status = res.status === 400 || res.status === 409 ? res.status : 502;
+    throw new HttpError(
+      status,
+      `caddy manager could not ${what}: ${message || `HTTP ${res.status}`}`
+    );
+  }
+
+  async createProxy(
+    input: { id: string; server: string; hosts: string[]; upstreams: string[] },
+    reason: string
+  ): Promise<void> {
+    const res = await this.fetch("POST", "/proxies", reason, input);
+    if (!res.ok) await this.fail(res, `create route ${input.id}`);
+  }
+
+  // Only the upstreams change, in place, so the route keeps its position
+  // and never stops matching
+  async setUpstreams(
+    id: string,
+    upstreams: string[],
+    reason: string
+  ): Promise<void> {
+    const res = await this.fetch(
+      "PATCH",
+      `/proxies/${encodeURIComponent(id)}`,
+      reason,
+      { upstreams }
+    );
+    if (!res.ok) await this.fail(res, `update route ${id}`);
+  }
+
+  async deleteProxy(id: string, reason: string): Promise<boolean> {
+    const res = await this.fetch(
+      "DELETE",
+      `/proxies/${encodeURIComponent(id)}`,
+      reason
+    );
+    if (res.status === 404) return false;
+    if (!res.ok) await this.fail(res, `delete route ${id}`);
+    return true;
+  }
+}
+
+type TunnelInput = {
+  server: string;
+  hosts: string[];
+  upstreamHost: string;
+  instance: CreateInput;
+};
+
+// A tunnel is an frps instance plus a Caddy route that sends the customer's
+// hostnames to the instance's vhostHTTPPort. The route is recorded on the
+// instance, so tunnels survive a manager restart with it.
+class TunnelManager {
+  private readonly frps: FrpsManager;
+  private readonly caddy: CaddyManagerClient;
+
+  constructor(frps: FrpsManager, caddy: CaddyManagerClient) {
+    this.frps = frps;
+    this.caddy = caddy;
+  }
+
+  list(): ManagedProcessMeta[] {
+    return this.frps.list().filter((m) => m.tunnel !== null);
+  }
+
+  get(id: string): ManagedProcessMeta | undefined {
+    const meta = this.frps.get(id);
+    return meta?.tunnel ? meta : undefined;
+  }
+
+  async create(input: TunnelInput): Promise<ManagedProcessMeta> {
+    // The stats webServer, if requested, is added here already; adding it
+    // again in frps.create keeps the one in the TOML
+    const toml = withVhostHttpPort(createBodyToml(input.instance));
+    const meta = await this.frps.create({
+      ...input.instance,
+      configToml: toml,
+      config: undefined,
+    });
+    const routeId = `tunnel-${meta.id}`;
+    let routeCreated = false;
+    try {
+      const upstream = await tunnelUpstream(meta, input.upstreamHost);
+      await this.caddy.createProxy(
+        {
+          id: routeId,
+          server: input.server,
+          hosts: input.hosts,
+          upstreams: [upstream],
+        },
+        `create tunnel ${meta.id}`
+      );
+      routeCreated = true;
+      return await this.frps.setTunnel(meta.id, {
+        routeId,
+        server: input.server,
+        hosts: input.hosts,
+        upstreamHost: input.upstreamHost,
+        upstream,
+      });
+    } catch (e) {
+      // Never leave half a tunnel behind. A create that timed out may still
+      // have added the route; one the caddy manager refused did not, and
+      // its id may belong to another route.
+      if (routeCreated || (e instanceof HttpError && e.status === 502))
+        await this.caddy
+          .deleteProxy(routeId, `roll back tunnel ${meta.id}`)
+          .catch(() => false);
+      await this.frps.stop(meta.id, { force: true, purge: true });
+      throw e;
+    }
+  }
+
+  // Updates go through the instance. A config without vhostHTTPPort gets
+  // an "auto" one, and the route follows the port if it changed.
+  async update(id: string, input: UpdateInput): Promise<ManagedProcessMeta> {
+    const toml =
+      input.configToml ??
+      (input.config !== undefined ? generateToml(input.config) : undefined);
+    const meta = await this.frps.update(id, {
+      ...input,
+      configToml: toml !== undefined ? withVhostHttpPort(toml) : undefined,
+      config: undefined,
     });
+    const tunnel = meta.tunnel;
+    if (!tunnel) return meta;
+    const upstream = await tunnelUpstream(meta, tunnel.upstreamHost);
+    if (upstream === tunnel.upstream) return meta;
 
-    return meta;
+    await this.caddy.setUpstreams(
+      tunnel.routeId,
+      [upstream],
+      `tunnel ${id} moved to ${upstream}`
+    );
+    return await this.frps.setTunnel(id, { ...tunnel, upstream });
+  }
+
+  // The route goes first: if Caddy fails, the instance is still intact and
+  // the delete can be retried
+  async delete(
+    id: string,
+    options: { force?: boolean; timeoutMs?: number; purge?: boolean }
+  ): Promise<{ routeDeleted: boolean; stopped: boolean }> {
+    const meta = this.get(id);
+    if (!meta) throw new HttpError(404, "not found");
+    const routeDeleted = await this.caddy.deleteProxy(
+      meta.tunnel!.routeId,
+      `delete tunnel ${id}`
+    );
+    const stopped = await this.frps.stop(id, options);
+    return { routeDeleted, stopped };
   }
 }
 
-class HttpError extends Error {
-  status: number;
-  constructor(status: number, message: string) {
-    super(message);
-    this.status = status;
+type ConfigSchema =
+  | { type: "string"; enum?: string[] }
+  | { type: "int"; min?: number; max?: number }
+  | { type: "bool" }
+  | { type: "array"; items: ConfigSchema }
+  | { type: "object"; fields: Record<string, ConfigSchema> };
+
+const stringField: ConfigSchema = { type: "string" };
+const boolField: ConfigSchema = { type: "bool" };
+const intField: ConfigSchema = { type: "int", min: 0 };
+const portField: ConfigSchema = { type: "int", min: 0, max: 65535 };
+const tlsFiles = {
+  certFile: stringField,
+  keyFile: stringField,
+  trustedCaFile: stringField,
+};
+
+// Server options of frps (fatedier/frp pkg/config/v1/server.go)
+const FRPS_CONFIG_SCHEMA: ConfigSchema = {
+  type: "object",
+  fields: {
+    auth: {
+      type: "object",
+      fields: {
+        method: { type: "string", enum: ["token", "oidc"] },
+        additionalScopes: {
+          type: "array",
+          items: { type: "string", enum: ["HeartBeats", "NewWorkConns"] },
+        },
+        token: stringField,
+        oidc: {
+          type: "object",
+          fields: {
+            issuer: stringField,
+            audience: stringField,
+            skipExpiryCheck: boolField,
+            skipIssuerCheck: boolField,
+          },
+        },
+      },
+    },
+    bindAddr: stringField,
+    bindPort: portField,
+    kcpBindPort: portField,
+    quicBindPort: portField,
+    proxyBindAddr: stringField,
+    vhostHTTPPort: portField,
+    vhostHTTPTimeout: intField,
+    vhostHTTPSPort: portField,
+    tcpmuxHTTPConnectPort: portField,
+    tcpmuxPassthrough: boolField,
+    subDomainHost: stringField,
+    custom404Page: stringField,
+    sshTunnelGateway: {
+      type: "object",
+      fields: {
+        bindPort: portField,
+        privateKeyFile: stringField,
+        autoGenPrivateKeyPath: stringField,
+        authorizedKeysFile: stringField,
+      },
+    },
+    webServer: {
+      type: "object",
+      fields: {
+        addr: stringField,
+        port: portField,
+        user: stringField,
+        password: stringField,
+        assetsDir: stringField,
+        pprofEnable: boolField,
+        tls: {
+          type: "object",
+          fields: { ...tlsFiles, serverName: stringField },
+        },
+      },
+    },
+    enablePrometheus: boolField,
+    log: {
+      type: "object",
+      fields: {
+        to: stringField,
+        level: {
+          type: "string",
+          enum: ["trace", "debug", "info", "warn", "error"],
+        },
+        maxDays: intField,
+        disablePrintColor: boolField,
+      },
+    },
+    transport: {
+      type: "object",
+      fields: {
+        tcpMuxKeepaliveInterval: intField,
+        tcpKeepalive: { type: "int" },
+        maxPoolCount: intField,
+        heartbeatTimeout: { type: "int" },
+        tcpMux: boolField,
+        quic: {
+          type: "object",
+          fields: {
+            keepalivePeriod: intField,
+            maxIdleTimeout: intField,
+            maxIncomingStreams: intField,
+          },
+        },
+        tls: { type: "object", fields: { force: boolField, ...tlsFiles } },
+      },
+    },
+    detailedErrorsToClient: boolField,
+    maxPortsPerClient: intField,
+    userConnTimeout: intField,
+    udpPacketSize: intField,
+    natholeAnalysisDataReserveHours: intField,
+    allowPorts: {
+      type: "array",
+      items: {
+        type: "object",
+        fields: { start: portField, end: portField, single: portField },
+      },
+    },
+    httpPlugins: {
+      type: "array",
+      items: {
+        type: "object",
+        fields: {
+          name: stringField,
+          addr: stringField,
+          path: stringField,
+          ops: { type: "array", items: stringField },
+          tlsVerify: boolField,
+        },
+      },
+    },
+  },
+};
+
+function validateFrpsConfig(config: JsonRecord): FieldError[] {
+  const errors: FieldError[] = [];
+  checkConfigValue(config, FRPS_CONFIG_SCHEMA, "", errors);
+
+  const allowPorts = config.allowPorts;
+  if (Array.isArray(allowPorts)) {
+    allowPorts.forEach((range, i) => {
+      if (!isPlainObject(range)) return;
+      const { start, end, single } = range as Record<string, unknown>;
+      const path = `allowPorts[${i}]`;
+      if (single !== undefined) {
+        if (start !== undefined || end !== undefined)
+          errors.push({ path, message: "use either single or start/end" });
+      } else if (start === undefined || end === undefined) {
+        errors.push({ path, message: "requires single or both start and end" });
+      } else if (Number(start) > Number(end)) {
+        errors.push({ path, message: "start must not be greater than end" });
+      }
+    });
   }
+
+  const auth = config.auth;
+  if (
+    isPlainObject(auth) &&
+    auth.method === "oidc" &&
+    !isPlainObject(auth.oidc)
+  )
+    errors.push({ path: "auth.oidc", message: "required when method is oidc" });
+
+  return errors;
 }
 
-async function streamLines(
-  stream: ReadableStream<Uint8Array>,
-  onLine: (line: string) => void
+function checkConfigValue(
+  value: unknown,
+  schema: ConfigSchema,
+  path: string,
+  errors: FieldError[]
 ) {
-  const decoder = new TextDecoder();
-  let buf = "";
-  for await (const chunk of stream) {
-    buf += decoder.decode(chunk, { stream: true });
-    let idx: number;
-    while ((idx = buf.indexOf("\n")) !== -1) {
-      const line = buf.slice(0, idx).replace(/\r$/, "");
-      onLine(line);
-      buf = buf.slice(idx + 1);
+  const fail = (message: string) => errors.push({ path, message });
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string")
+        return fail(`expected string, got ${describeType(value)}`);
+      if (schema.enum && !schema.enum.includes(value))
+        return fail(`must be one of ${schema.enum.join(", ")}`);
+      return;
+    case "int":
+      if (typeof value !== "number" || !Number.isInteger(value))
+        return fail(`expected integer, got ${describeType(value)}`);
+      if (schema.min !== undefined && value < schema.min)
+        return fail(`must be >= ${schema.min}`);
+      if (schema.max !== undefined && value > schema.max)
+        return fail(`must be <= ${schema.max}`);
+      return;
+    case "bool":
+      if (typeof value !== "boolean")
+        return fail(`expected boolean, got ${describeType(value)}`);
+      return;
+    case "array":
+      if (!Array.isArray(value))
+        return fail(`expected array, got ${describeType(value)}`);
+      value.forEach((item, i) =>
+        checkConfigValue(item, schema.items, `${path}[${i}]`, errors)
+      );
+      return;
+    case "object": {
+      if (!isPlainObject(value))
+        return fail(`expected table, got ${describeType(value)}`);
+      const known = Object.keys(schema.fields);
+      for (const [key, item] of Object.entries(value)) {
+        const itemPath = path ? `${path}.${key}` : key;
+        const fieldSchema = schema.fields[key];
+        if (fieldSchema) {
+          checkConfigValue(item, fieldSchema, itemPath, errors);
+          continue;
+        }
+        // Point out case typos such as bindport -> bindPort
+        const match = known.find((k) => k.toLowerCase() === key.toLowerCase());
+        errors.push({
+          path: itemPath,
+          message: match
+            ? `unknown field, did you mean ${match}?`
+            : "unknown field",
+        });
+      }
+      return;
     }
   }
-  if (buf) onLine(buf);
 }
 
-function generateToml(config: JsonRecord): string {
-  // Minimal best-effort TOML generator for flat objects and simple nested tables.
-  // For production, users can pass configToml for full fidelity.
-  const lines: string[] = [];
-  const flatEntries: [string, unknown][] = [];
-  const tables: Record<string, Record<string, unknown>> = {};
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && !Number.isInteger(value)) return "float";
+  return typeof value;
+}
 
-  for (const [key, value] of Object.entries(config)) {
-    if (value && typeof value === "object" && !Array.isArray(value)) {
-      tables[key] = value as Record<string, unknown>;
-    } else {
-      flatEntries.push([key, value]);
-    }
+// Parse and validate the TOML that would be handed to frps, so structured
+// configs and configToml go through the same checks
+function assertValidFrpsConfig(configToml: string): JsonRecord {
+  let config: JsonRecord;
+  try {
+    config = Bun.TOML.parse(configToml) as JsonRecord;
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    throw new HttpError(422, "invalid frps config", {
+      errors: [{ path: "", message: `invalid TOML: ${message}` }],
+    });
+  }
+  const errors = validateFrpsConfig(config);
+  if (errors.length > 0)
+    throw new HttpError(422, "invalid frps config", { errors });
+  return config;
+}
+
+// Comma-separated terms: key=value (or key==value), key!=value, key, !key
+function parseSelector(raw: string): LabelRequirement[] {
+  const terms = raw
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+  if (terms.length === 0)
+    throw new HttpError(400, "selector must not be empty");
+  return terms.map((term) => {
+    const match = term.match(/^(!?)([^=!]+?)\s*(?:(!=|==?)\s*(.*))?$/);
+    if (!match) throw new HttpError(400, `invalid selector term: ${term}`);
+    const [, not, key, op, value] = match;
+    if (!LABEL_KEY_RE.test(key!))
+      throw new HttpError(400, `invalid label key in selector: ${key}`);
+    if (op === undefined) return { key: key!, op: not ? "!exists" : "exists" };
+    if (not) throw new HttpError(400, `invalid selector term: ${term}`);
+    return { key: key!, op: op === "!=" ? "!=" : "=", value: value! };
+  });
+}
+
+// A missing label never equals a value but always differs from one
+function matchesSelector(
+  labels: Record<string, string>,
+  selector: LabelRequirement[]
+): boolean {
+  return selector.every(({ key, op, value }) => {
+    const has = Object.hasOwn(labels, key);
+    if (op === "exists") return has;
+    if (op === "!exists") return !has;
+    if (op === "=") return has && labels[key] === value;
+    return !has || labels[key] !== value;
+  });
+}
+
+const FRPS_PROXY_TYPES = [
+  "tcp",
+  "udp",
+  "http",
+  "https",
+  "tcpmux",
+  "stcp",
+  "sudp",
+  "xtcp",
+];
+
+// TOML for a create body: configToml as given, or generated from config.
+// With stats, a loopback webServer with generated credentials is added so
+// the manager can query the frps API.
+function createBodyToml(input: {
+  configToml?: string;
+  config?: JsonRecord;
+  stats?: boolean;
+}): string {
+  const toml = input.configToml ?? generateToml(input.config ?? {});
+  if (!input.stats) return toml;
+  let config: JsonRecord;
+  try {
+    config = Bun.TOML.parse(toml) as JsonRecord;
+  } catch {
+    // Left to validation to report
+    return toml;
+  }
+  const web = isPlainObject(config.webServer) ? config.webServer : {};
+  // Keep a webServer the caller configured themselves
+  if (web.port !== undefined && web.port !== 0) return toml;
+  config.webServer = {
+    ...web,
+    addr: "127.0.0.1",
+    port: AUTO_PORT,
+    user: web.user ?? "frpsmgr",
+    password:
+      web.password ??
+      Buffer.from(crypto.getRandomValues(new Uint8Array(18))).toString(
+        "base64url"
+      ),
+  };
+  return generateToml(config);
+}
+
+// Tunnel instances always serve HTTP vhosts; assign a port if the config
+// does not set one
+function withVhostHttpPort(toml: string): string {
+  let config: JsonRecord;
+  try {
+    config = Bun.TOML.parse(toml) as JsonRecord;
+  } catch {
+    // Left to validation to report
+    return toml;
+  }
+  if (config.vhostHTTPPort !== undefined && config.vhostHTTPPort !== 0)
+    return toml;
+  return generateToml({ ...config, vhostHTTPPort: AUTO_PORT });
+}
+
+async function tunnelUpstream(
+  meta: ManagedProcessMeta,
+  upstreamHost: string
+): Promise<string> {
+  const port = (await readInstanceConfig(meta)).vhostHTTPPort;
+  if (typeof port !== "number" || port <= 0)
+    throw new HttpError(409, `frps ${meta.id} has no vhostHTTPPort`);
+  return `${upstreamHost}:${port}`;
+}
+
+async function readInstanceConfig(
+  meta: ManagedProcessMeta
+): Promise<JsonRecord> {
+  const toml = await readFile(meta.configPath, "utf8").catch(() => "");
+  try {
+    return Bun.TOML.parse(toml) as JsonRecord;
+  } catch {
+    return {};
+  }
+}
+
+// A proxy to include in a generated frpc config
+type FrpcProxyTemplate = {
+  name: string;
+  type: "tcp" | "udp" | "http";
+  localIP: string;
+  localPort: number;
+  // tcp and udp; 0 lets frps pick a port
+  remotePort?: number;
+  // http
+  customDomains?: string[];
+  subdomain?: string;
+};
+
+const FRPC_PROXY_TYPES = ["tcp", "udp", "http"];
+
+// How frpc connects: kcp and quic use the server's kcpBindPort and
+// quicBindPort, the others bindPort
+const FRPC_PROTOCOLS = ["tcp", "kcp", "quic", "websocket", "wss"] as const;
+
+type FrpcProtocol = (typeof FRPC_PROTOCOLS)[number];
+
+type FrpcOptions = {
+  serverAddr?: string;
+  protocol: FrpcProtocol;
+  proxies: FrpcProxyTemplate[];
+};
+
+// Values in an frps config that let a client in or read the frps API
+const SECRET_CONFIG_PATHS: Array<[string, string]> = [
+  ["auth", "token"],
+  ["webServer", "password"],
+];
+
+const REDACTED = "[redacted]";
+
+// Configs are returned with their secrets only for ?includeSecrets=true,
+// which needs frps:write on top of frps:read
+function wantsSecrets(principal: Principal, url: URL): boolean {
+  if (url.searchParams.get("includeSecrets") !== "true") return false;
+  requireScope(principal, "frps:write");
+  return true;
+}
+
+function redactConfig(config: JsonRecord): JsonRecord {
+  const out = structuredClone(config);
+  for (const [section, key] of SECRET_CONFIG_PATHS) {
+    const table = out[section];
+    if (isPlainObject(table) && table[key] !== undefined) table[key] = REDACTED;
+  }
+  return out;
+}
+
+// The TOML is regenerated only if it has secrets; null if it is not TOML
+function redactToml(toml: string): string | null {
+  let config: JsonRecord;
+  try {
+    config = Bun.TOML.parse(toml) as JsonRecord;
+  } catch {
+    return null;
   }
+  const redacted = redactConfig(config);
+  return JSON.stringify(redacted) === JSON.stringify(config)
+    ? toml
+    : generateToml(redacted);
+}
 
-  for (const [k, v] of flatEntries) {
-    lines.push(`${k} = ${tomlValue(v)}`);
+// frpc config that connects to an instance: port, auth and transport from
+// its server config, plus the requested proxies. Settings the server config
+// cannot provide, like OIDC client credentials, are reported as warnings.
+function buildFrpcConfig(
+  server: JsonRecord,
+  serverAddr: string,
+  options: FrpcOptions
+): { config: JsonRecord; warnings: string[] } {
+  const warnings: string[] = [];
+  const port = (value: unknown): number | null =>
+    typeof value === "number" && value > 0 ? value : null;
+  const serverPort =
+    options.protocol === "kcp"
+      ? port(server.kcpBindPort)
+      : options.protocol === "quic"
+      ? port(server.quicBindPort)
+      : port(server.bindPort) ?? 7000;
+  if (serverPort === null)
+    throw new HttpError(
+      409,
+      `frps has no ${options.protocol}BindPort for protocol ${options.protocol}`
+    );
+  const config: JsonRecord = { serverAddr, serverPort };
+
+  const auth = isPlainObject(server.auth) ? server.auth : {};
+  const clientAuth: JsonRecord = {};
+  if (auth.method === "oidc") {
+    clientAuth.method = "oidc";
+    const oidc = isPlainObject(auth.oidc) ? auth.oidc : {};
+    if (typeof oidc.audience === "string")
+      clientAuth.oidc = { audience: oidc.audience };
+    warnings.push(
+      "auth.oidc.clientID, clientSecret and tokenEndpointURL must be filled in"
+    );
+  } else if (typeof auth.token === "string" && auth.token) {
+    clientAuth.method = "token";
+    clientAuth.token = auth.token;
   }
-  for (const [tbl, obj] of Object.entries(tables)) {
-    lines.push("");
-    lines.push(`[${tbl}]`);
-    for (const [k, v] of Object.entries(obj)) {
-      lines.push(`${k} = ${tomlValue(v)}`);
+  if (Array.isArray(auth.additionalScopes) && auth.additionalScopes.length > 0)
+    clientAuth.additionalScopes = auth.additionalScopes;
+  if (Object.keys(clientAuth).length > 0) config.auth = clientAuth;
+
+  const transport = isPlainObject(server.transport) ? server.transport : {};
+  const clientTransport: JsonRecord = {};
+  if (options.protocol !== "tcp") clientTransport.protocol = options.protocol;
+  // Both sides have to agree on multiplexing
+  if (transport.tcpMux === false) clientTransport.tcpMux = false;
+  if (typeof transport.tcpMuxKeepaliveInterval === "number")
+    clientTransport.tcpMuxKeepaliveInterval = transport.tcpMuxKeepaliveInterval;
+  const tls = isPlainObject(transport.tls) ? transport.tls : {};
+  if (tls.force === true) clientTransport.tls = { enable: true };
+  if (typeof tls.trustedCaFile === "string" && tls.trustedCaFile)
+    warnings.push(
+      "frps verifies client certificates: set transport.tls.certFile and transport.tls.keyFile"
+    );
+  if (Object.keys(clientTransport).length > 0)
+    config.transport = clientTransport;
+
+  const proxies = options.proxies.map((template) => {
+    const { name, type, localIP, localPort } = template;
+    const proxy: JsonRecord = { name, type, localIP, localPort };
+    if (type === "http") {
+      if (port(server.vhostHTTPPort) === null)
+        throw new HttpError(409, `proxy ${name}: frps has no vhostHTTPPort`);
+      if (template.customDomains) proxy.customDomains = template.customDomains;
+      if (template.subdomain !== undefined) {
+        if (typeof server.subDomainHost !== "string" || !server.subDomainHost)
+          throw new HttpError(409, `proxy ${name}: frps has no subDomainHost`);
+        proxy.subdomain = template.subdomain;
+      }
+      return proxy;
     }
+    const remotePort = template.remotePort ?? 0;
+    if (remotePort !== 0 && !isPortAllowed(server.allowPorts, remotePort))
+      throw new HttpError(
+        409,
+        `proxy ${name}: remotePort ${remotePort} is outside the allowPorts of frps`
+      );
+    proxy.remotePort = remotePort;
+    return proxy;
+  });
+  if (proxies.length > 0) config.proxies = proxies;
+
+  return { config, warnings };
+}
+
+// Whether frps accepts a proxy on the port; no allowPorts allows any
+function isPortAllowed(allowPorts: unknown, port: number): boolean {
+  if (!Array.isArray(allowPorts) || allowPorts.length === 0) return true;
+  return allowPorts.some(
+    (range) =>
+      isPlainObject(range) &&
+      (range.single === port ||
+        (typeof range.start === "number" &&
+          typeof range.end === "number" &&
+          range.start <= port &&
+          port <= range.end))
+  );
+}
+
+// GET a path of the instance's frps webServer. The whole body is read
+// within the timeout, so a stalled frps cannot hang the caller.
+async function fetchFrpsApi(
+  meta: ManagedProcessMeta,
+  apiPath: string
+): Promise<{ status: number; body: string }> {
+  if (meta.state.status !== "running")
+    throw new HttpError(409, `frps ${meta.id} is not running`);
+
+  const config = await readInstanceConfig(meta);
+  const web = isPlainObject(config.webServer) ? config.webServer : {};
+  if (typeof web.port !== "number" || web.port <= 0)
+    throw new HttpError(
+      409,
+      "webServer is not enabled for this instance; create it with stats: true"
+    );
+
+  // A wildcard listen address is reachable through loopback
+  const addr =
+    typeof web.addr === "string" && !["", "0.0.0.0", "::"].includes(web.addr)
+      ? web.addr
+      : "127.0.0.1";
+  const scheme = isPlainObject(web.tls) && web.tls.certFile ? "https" : "http";
+  const headers: Record<string, string> = {};
+  if (typeof web.user === "string" && web.user) {
+    const password = typeof web.password === "string" ? web.password : "";
+    headers.Authorization = `Basic ${btoa(`${web.user}:${password}`)}`;
   }
 
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), 3000);
+  try {
+    const res = await fetch(`${scheme}://${addr}:${web.port}${apiPath}`, {
+      headers,
+      signal: controller.signal,
+      // The dashboard certificate is usually issued for a public name
+      tls: { rejectUnauthorized: false },
+    });
+    return { status: res.status, body: await res.text() };
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    throw new HttpError(502, `frps webServer unreachable: ${message}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// JSON from the frps webServer API. Resolves to null when frps answers
+// 404, e.g. for endpoints an older frps does not have.
+async function queryFrpsApi(
+  meta: ManagedProcessMeta,
+  apiPath: string
+): Promise<any> {
+  const res = await fetchFrpsApi(meta, apiPath);
+  if (res.status === 404) return null;
+  if (res.status < 200 || res.status >= 300)
+    throw new HttpError(502, `frps api ${apiPath} returned ${res.status}`);
+  try {
+    return JSON.parse(res.body);
+  } catch {
+    throw new HttpError(502, `frps api ${apiPath} returned invalid JSON`);
+  }
+}
+
+async function listFrpsProxies(meta: ManagedProcessMeta, type?: string) {
+  const types = type ? [type] : FRPS_PROXY_TYPES;
+  const results = await Promise.all(
+    types.map(async (t) => {
+      const data = await queryFrpsApi(meta, `/api/proxy/${t}`);
+      const proxies: any[] = Array.isArray(data?.proxies) ? data.proxies : [];
+      return proxies.map((p) => ({ type: t, ...p }));
+    })
+  );
+  return results.flat();
+}
+
+// Coarse state of an instance for the instances-by-state gauge
+function instanceHealth(
+  meta: ManagedProcessMeta
+): "running" | "restarting" | "failed" | "exited" {
+  if (meta.state.status === "running") return "running";
+  if (meta.supervisor.nextRetryAt !== null) return "restarting";
+  if (meta.supervisor.gaveUp !== null) return "failed";
+  return "exited";
+}
+
+async function renderMetrics(
+  manager: FrpsManager,
+  metrics: Metrics
+): Promise<string> {
+  const list = manager.list();
+  const now = Date.now();
+  const lines: string[] = [];
+
+  const byState = { running: 0, restarting: 0, failed: 0, exited: 0 };
+  for (const meta of list) byState[instanceHealth(meta)]++;
+  writeMetric(
+    lines,
+    "frps_manager_instances",
+    "Managed frps instances by state.",
+    "gauge",
+    Object.entries(byState).map(([state, n]) => [{ state }, n])
+  );
+  writeMetric(
+    lines,
+    "frps_manager_instance_up",
+    "Whether the instance's frps process is running.",
+    "gauge",
+    list.map((m) => [{ instance: m.id }, m.state.status === "running" ? 1 : 0])
+  );
+  writeMetric(
+    lines,
+    "frps_manager_instance_uptime_seconds",
+    "Seconds since the running frps process started, 0 when stopped.",
+    "gauge",
+    list.map((m) => [
+      { instance: m.id },
+      m.state.status === "running" ? (now - m.state.startedAt) / 1000 : 0,
+    ])
+  );
+  writeMetric(
+    lines,
+    "frps_manager_instance_restarts_total",
+    "Restarts performed by the supervisor.",
+    "counter",
+    list.map((m) => [{ instance: m.id }, m.supervisor.restarts])
+  );
+  writeMetric(
+    lines,
+    "frps_manager_instance_last_exit_code",
+    "Exit code of the last exit, -1 when killed by a signal.",
+    "gauge",
+    list.flatMap(
+      (m): Array<[MetricLabels, number]> =>
+        m.state.status === "exited" && m.state.exitedAt > 0
+          ? [[{ instance: m.id }, m.state.exitCode ?? -1]]
+          : []
+    )
+  );
+  writeMetric(
+    lines,
+    "frps_manager_log_lines_total",
+    "Log lines captured since the manager started.",
+    "counter",
+    list.flatMap((m) =>
+      LOG_STREAMS.map((stream): [MetricLabels, number] => [
+        { instance: m.id, stream },
+        m.logBuffer.lineCounts[stream],
+      ])
+    )
+  );
+  const usage = list.flatMap((m): Array<[string, UsageSample]> => {
+    const sample = m.usage.toArray(1)[0];
+    return m.state.status === "running" && sample ? [[m.id, sample]] : [];
+  });
+  writeMetric(
+    lines,
+    "frps_manager_instance_cpu_seconds_total",
+    "CPU time of the running frps process at the last /proc sample.",
+    "counter",
+    usage.map(([id, u]) => [{ instance: id }, u.cpuSeconds])
+  );
+  writeMetric(
+    lines,
+    "frps_manager_instance_resident_memory_bytes",
+    "Resident memory of the running frps process at the last /proc sample.",
+    "gauge",
+    usage.map(([id, u]) => [{ instance: id }, u.rssBytes])
+  );
+  writeMetric(
+    lines,
+    "frps_manager_instance_open_fds",
+    "Open file descriptors of the running frps process at the last sample.",
+    "gauge",
+    usage.map(([id, u]) => [{ instance: id }, u.fds])
+  );
+  metrics.render(lines);
+
+  // frps serves its own metrics on the webServer when enablePrometheus is
+  // set. Instances that do not answer are reported as down, not as errors.
+  const running = list.filter((m) => m.state.status === "running");
+  const configs = await Promise.all(running.map((m) => readInstanceConfig(m)));
+  const exporting = running.filter((_, i) => configs[i]!.enablePrometheus);
+  const scraped = await Promise.all(
+    exporting.map(async (m): Promise<[string, string | null]> => {
+      try {
+        const res = await fetchFrpsApi(m, "/metrics");
+        return [m.id, res.status === 200 ? res.body : null];
+      } catch {
+        return [m.id, null];
+      }
+    })
+  );
+  writeMetric(
+    lines,
+    "frps_manager_instance_metrics_up",
+    "Whether the instance's own frps metrics could be scraped.",
+    "gauge",
+    scraped.map(([id, body]) => [{ instance: id }, body !== null ? 1 : 0])
+  );
+  lines.push(...mergeFrpsMetrics(scraped));
   return lines.join("\n") + "\n";
 }
 
-function tomlValue(value: unknown): string {
-  if (typeof value === "string") return JSON.stringify(value);
-  if (typeof value === "number" || typeof value === "boolean")
-    return String(value);
-  if (Array.isArray(value)) return `[${value.map(tomlValue).join(", ")}]`;
-  if (value && typeof value === "object") {
-    return `{ ${Object.entries(value as Record<string, unknown>)
-      .map(([k, v]) => `${k} = ${tomlValue(v)}`)
-      .join(", ")} }`;
+// Merge the metrics of several frps instances into one exposition, with
+// an instance label on every sample and each HELP/TYPE emitted once.
+function mergeFrpsMetrics(scraped: Array<[string, string | null]>): string[] {
+  const families = new Map<string, { header: string[]; samples: string[] }>();
+  const family = (name: string) => {
+    let f = families.get(name);
+    if (!f) families.set(name, (f = { header: [], samples: [] }));
+    return f;
+  };
+
+  for (const [id, body] of scraped) {
+    if (body === null) continue;
+    const instance = `instance="${escapeLabelValue(id)}"`;
+    let current: string | undefined;
+    for (const line of body.split("\n")) {
+      const header = line.match(/^# (HELP|TYPE) (\S+)/);
+      if (header) {
+        current = header[2]!;
+        const f = family(current);
+        if (!f.header.some((h) => h.startsWith(`# ${header[1]} `)))
+          f.header.push(line);
+        continue;
+      }
+      const sample = line.match(/^([a-zA-Z_:][\w:]*)(?:\{(.*)\})?(\s.*)$/);
+      if (!sample) continue;
+      const [, name, labels, rest] = sample;
+      const relabeled = labels ? `${instance},${labels}` : instance;
+      // Histogram and summary samples belong to the family declared above
+      family(
+        current && name!.startsWith(current) ? current : name!
+      ).samples.push(`${name}{${relabeled}}${rest}`);
+    }
   }
-  return "null";
+  return [...families.values()].flatMap((f) => [...f.header, ...f.samples]);
 }
 
 async function assertBinaryExists(binaryPath: string) {
@@ -299,27 +2316,134 @@ async function assertBinaryExists(binaryPath: string) {
     throw new HttpError(400, `binary not found in PATH: ${binaryPath}`);
 }
 
-function requireAuth(req: Request, apiSecret: string) {
-  const auth =
-    req.headers.get("authorization") || req.headers.get("Authorization");
-  if (!auth || !auth.startsWith("Bearer "))
-    throw new HttpError(401, "missing bearer token");
-  const token = auth.slice("Bearer ".length).trim();
-  if (token !== apiSecret) throw new HttpError(403, "invalid token");
+function requireIdAccess(principal: Principal, id: string) {
+  if (!canAccessId(principal, id))
+    throw new HttpError(403, `key is not allowed to access instance ${id}`);
 }
 
-function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
-  return new Response(JSON.stringify(body), {
-    headers: { "content-type": "application/json" },
-    ...init,
-  });
+// A key limited to id prefixes cannot create instances with random ids
+function requireNewIdAccess(principal: Principal, id: string | undefined) {
+  if (id === undefined && principal.idPrefixes !== null)
+    throw new HttpError(
+      403,
+      `key is limited to ids starting with ${principal.idPrefixes.join(
+        ", "
+      )}; provide an id`
+    );
+  if (id !== undefined) requireIdAccess(principal, id);
 }
 
-function textResponse(body: string, init: ResponseInit = {}): Response {
-  return new Response(body, {
-    headers: { "content-type": "text/plain" },
-    ...init,
-  });
+function openLogBuffer(
+  workDir: string,
+  logLines: number,
+  logFiles: LogFileOptions
+): LogBuffer {
+  return new LogBuffer(
+    logLines,
+    new LogFile(path.join(workDir, LOG_DIR), logFiles)
+  );
+}
+
+function describeExit(exitCode: number | null, signal: string | null) {
+  if (signal) return `killed by ${signal}`;
+  if (exitCode === null) return "exited with unknown status";
+  return `exited with code ${exitCode}`;
+}
+
+function buildEnv(overrides: Record<string, string>): Record<string, string> {
+  return { ...process.env, ...overrides } as Record<string, string>;
+}
+
+// Dotted paths that differ between two configs, prefixed with "config."
+function diffConfigPaths(prevToml: string, nextToml: string): string[] {
+  if (prevToml === nextToml) return [];
+  let prev: JsonRecord;
+  let next: JsonRecord;
+  try {
+    prev = Bun.TOML.parse(prevToml) as JsonRecord;
+    next = Bun.TOML.parse(nextToml) as JsonRecord;
+  } catch {
+    return ["config"];
+  }
+  const paths: string[] = [];
+  const walk = (a: unknown, b: unknown, prefix: string) => {
+    if (isPlainObject(a) && isPlainObject(b)) {
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+      for (const key of keys) walk(a[key], b[key], `${prefix}.${key}`);
+    } else if (JSON.stringify(a) !== JSON.stringify(b)) {
+      paths.push(prefix);
+    }
+  };
+  walk(prev, next, "config");
+  // Formatting-only edits still count as a change of the file
+  return paths.length > 0 ? paths : ["config"];
+}
+
+// Names only, so history never exposes env values
+function diffEnvKeys(
+  prev: Record<string, string>,
+  next: Record<string, string>
+): string[] {
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  return [...keys].filter((k) => prev[k] !== next[k]).map((k) => `env.${k}`);
+}
+
+async function readInstanceRecord(
+  workDir: string
+): Promise<PersistedInstance | null> {
+  let raw: string;
+  try {
+    raw = await readFile(path.join(workDir, INSTANCE_FILE), "utf8");
+  } catch {
+    return null;
+  }
+  try {
+    const record = JSON.parse(raw) as PersistedInstance;
+    if (record.version !== 1 || typeof record.id !== "string") return null;
+    if (!RECOVERY_POLICIES.includes(record.recovery))
+      record.recovery = "reattach";
+    record.logFiles = { ...DEFAULT_LOG_FILE_OPTIONS, ...record.logFiles };
+    record.restart = { ...DEFAULT_RESTART_OPTIONS, ...record.restart };
+    record.supervisor = { ...newSupervisorState(), ...record.supervisor };
+    record.revision ??= 1;
+    record.history ??= [];
+    record.tunnel ??= null;
+    return record;
+  } catch {
+    console.error(`Ignoring unreadable ${INSTANCE_FILE} in ${workDir}`);
+    return null;
+  }
+}
+
+// Guard against pid reuse: only treat a pid as ours if its command line
+// is the instance's binary followed by its args. The binary may come after
+// an interpreter (scripts) or be named by its file name only. Where /proc
+// is unavailable, fall back to a plain liveness check.
+function isOwnFrps(pid: number, binaryPath: string, args: string[]): boolean {
+  if (!isProcessAlive(pid)) return false;
+  try {
+    const cmdline = readFileSync(`/proc/${pid}/cmdline`, "utf8");
+    const argv = cmdline.split("\0");
+    if (argv[argv.length - 1] === "") argv.pop();
+    const split = argv.length - args.length;
+    if (split < 1) return false;
+    if (JSON.stringify(argv.slice(split)) !== JSON.stringify(args))
+      return false;
+    return argv
+      .slice(0, split)
+      .some(
+        (arg) =>
+          arg === binaryPath || path.basename(arg) === path.basename(binaryPath)
+      );
+  } catch {
+    return !existsSync("/proc");
+  }
+}
+
+// Ids become directory names, so they must not contain path separators
+function assertSafeId(id: string) {
+  if (/[\/\\\0]/.test(id))
+    throw new HttpError(400, "id must not contain path separators");
 }
 
 function isProcessAlive(pid: number): boolean {
@@ -331,14 +2455,65 @@ function isProcessAlive(pid: number): boolean {
   }
 }
 
-function parseUrl(req: Request): URL {
-  return new URL(req.url);
+// CPU times in /proc/<pid>/stat are in clock ticks (USER_HZ), read once
+// at startup
+const CLOCK_TICKS_PER_SECOND = readClockTicks();
+
+// `getconf CLK_TCK`, or 100, the value on mainstream Linux builds, if
+// getconf is not available
+function readClockTicks(): number {
+  try {
+    const result = Bun.spawnSync(["getconf", "CLK_TCK"], {
+      stdout: "pipe",
+      stderr: "ignore",
+    });
+    const ticks = Number(result.stdout.toString().trim());
+    if (result.success && Number.isInteger(ticks) && ticks > 0) return ticks;
+  } catch {}
+  return 100;
 }
 
-function readJson(req: Request): Promise<any> {
-  return req.json().catch(() => {
-    throw new HttpError(400, "invalid JSON body");
-  });
+async function readProcUsage(
+  pid: number,
+  prev: UsageSample | undefined
+): Promise<UsageSample> {
+  const dir = `/proc/${pid}`;
+  const [stat, status, fds] = await Promise.all([
+    readFile(`${dir}/stat`, "utf8"),
+    readFile(`${dir}/status`, "utf8"),
+    readdir(`${dir}/fd`),
+  ]);
+  // The command name may contain spaces; count fields after it. utime and
+  // stime are fields 14 and 15 of the whole line.
+  const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+  const ticks = Number(fields[11]) + Number(fields[12]);
+  const cpuSeconds = ticks / CLOCK_TICKS_PER_SECOND;
+  const statusField = (name: string) =>
+    Number(status.match(new RegExp(`^${name}:\\s+(\\d+)`, "m"))?.[1] ?? 0);
+  const links = await Promise.all(
+    fds.map((fd) => readlink(`${dir}/fd/${fd}`).catch(() => ""))
+  );
+
+  const ts = Date.now();
+  let cpuPercent: number | null = null;
+  if (prev && prev.pid === pid && ts > prev.ts) {
+    const busy = (cpuSeconds - prev.cpuSeconds) / ((ts - prev.ts) / 1000);
+    cpuPercent = Math.round(busy * 1000) / 10;
+  }
+  return {
+    ts,
+    pid,
+    cpuSeconds,
+    cpuPercent,
+    rssBytes: statusField("VmRSS") * 1024,
+    fds: fds.length,
+    threads: statusField("Threads"),
+    sockets: links.filter((l) => l.startsWith("socket:")).length,
+  };
+}
+
+function parseUrl(req: Request): URL {
+  return new URL(req.url);
 }
 
 async function ensureRuntimeDir(): Promise<string> {
@@ -354,66 +2529,653 @@ if (!apiSecret) {
 }
 
 const runtimeRoot = await ensureRuntimeDir();
-const manager = new FrpsManager(runtimeRoot);
+const apiKeys = new ApiKeyStore<ApiScope>(
+  path.join(runtimeRoot, API_KEYS_FILE),
+  apiSecret,
+  { rootName: "API_SECRET", tokenPrefix: "frpm_" }
+);
+await apiKeys.load();
+const portAllocator = new PortAllocator(parsePortPool(process.env.PORT_POOL));
+const webhooks = new WebhookDispatcher<WebhookEventType>(
+  path.join(runtimeRoot, WEBHOOKS_FILE),
+  {
+    userAgent: "frps-manager-webhooks",
+    allowLocal: process.env.WEBHOOKS_ALLOW_LOCAL === "true",
+  }
+);
+const audit = new AuditLog(path.join(runtimeRoot, AUDIT_FILE));
+await webhooks.load();
+const metrics = new Metrics();
+metrics.defineCounter(
+  "frps_manager_instance_exits_total",
+  "Exits of managed frps processes by exit code or signal."
+);
+metrics.defineCounter(
+  "frps_manager_http_requests_total",
+  "Requests handled by the management API."
+);
+metrics.defineHistogram(
+  "frps_manager_http_request_duration_seconds",
+  "Time until the management API returned a response.",
+  HTTP_DURATION_BUCKETS
+);
+const binaries = new BinaryRegistry(
+  binarySources(),
+  path.join(runtimeRoot, "binaries")
+);
+await binaries.scan();
+const manager = new FrpsManager(runtimeRoot, portAllocator, binaries);
+await manager.recover();
+manager.startUsageSampling();
+webhooks.start();
+const tunnels = new TunnelManager(
+  manager,
+  new CaddyManagerClient(
+    process.env.CADDY_MANAGER_URL || "http://127.0.0.1:3001",
+    process.env.CADDY_MANAGER_TOKEN || ""
+  )
+);
 
 // Graceful shutdown of all managed processes
 for (const signal of ["SIGINT", "SIGTERM"]) {
   process.on(signal as NodeJS.Signals, async () => {
     console.log(`Received ${signal}, stopping managed frps processes...`);
-    const ids = manager.list().map((p) => p.id);
-    await Promise.all(ids.map((id) => manager.stop(id, { force: true })));
+    await manager.shutdown();
+    await webhooks.stop();
     process.exit(0);
   });
 }
 
-const server = Bun.serve({
+type FollowOptions = {
+  afterSeq?: number;
+  limit?: number;
+  stream?: LogStream;
+  grep?: RegExp;
+};
+
+type LogSocketData = FollowOptions & {
+  id: string;
+  unsubscribe?: () => void;
+};
+
+const FRPS_ROUTE =
+  /^\/frps\/([^\/]+)(?:\/(logs|config|revisions|proxies|clients|serverinfo|stop|start|restart|frpc\.toml|frpc\.json)(?:(?<=\/revisions)\/(\d+))?)?$/;
+const STATIC_ROUTES = [
+  "/healthz",
+  "/metrics",
+  "/frps",
+  "/frps/validate",
+  "/frps/actions",
+  "/ports",
+  "/binaries",
+  "/keys",
+  "/tunnels",
+  "/webhooks",
+  "/audit",
+];
+const KEY_ROUTE = /^\/keys\/([^\/]+)$/;
+const WEBHOOK_ROUTE = /^\/webhooks\/([^\/]+)(?:\/(deliveries))?$/;
+const TUNNEL_ROUTE = /^\/tunnels\/([^\/]+)$/;
+
+// Route template used as the metrics label, so ids do not blow up the
+// label cardinality
+function routeLabel(pathname: string): string {
+  if (STATIC_ROUTES.includes(pathname)) return pathname;
+  if (KEY_ROUTE.test(pathname)) return "/keys/:id";
+  const webhookMatch = pathname.match(WEBHOOK_ROUTE);
+  if (webhookMatch)
+    return webhookMatch[2] ? "/webhooks/:id/deliveries" : "/webhooks/:id";
+  if (TUNNEL_ROUTE.test(pathname)) return "/tunnels/:id";
+  const match = pathname.match(FRPS_ROUTE);
+  if (!match) return "unmatched";
+  let route = "/frps/:id";
+  if (match[2]) route += `/${match[2]}`;
+  if (match[3]) route += "/:revision";
+  return route;
+}
+
+// Count and time every request. A websocket upgrade has no response and
+// is recorded as 101.
+function instrumentFetch<S>(
+  handler: (req: Request, server: S) => Promise<Response | undefined>
+): (req: Request, server: S) => Promise<Response | undefined> {
+  return async (req, server) => {
+    const startedAt = performance.now();
+    const res = await handler(req, server);
+    const route = routeLabel(new URL(req.url).pathname);
+    const status = String(res?.status ?? 101);
+    metrics.inc("frps_manager_http_requests_total", {
+      method: req.method,
+      route,
+      status,
+    });
+    metrics.observe(
+      "frps_manager_http_request_duration_seconds",
+      { method: req.method, route },
+      (performance.now() - startedAt) / 1000
+    );
+    return res;
+  };
+}
+
+// The instance, key, tunnel or webhook a call is about: the id in the path,
+// else the id in the request body or of what was created
+function auditTarget(pathname: string, body: any, created: any): string | null {
+  if (!STATIC_ROUTES.includes(pathname)) {
+    const match =
+      pathname.match(FRPS_ROUTE) ??
+      pathname.match(KEY_ROUTE) ??
+      pathname.match(TUNNEL_ROUTE) ??
+      pathname.match(WEBHOOK_ROUTE);
+    if (match) return decodeURIComponent(match[1]!);
+  }
+  if (typeof body?.id === "string") return body.id;
+  if (typeof created?.id === "string") return created.id;
+  return null;
+}
+
+// Metrics and audit records around the request handler
+function serveFetch<
+  S extends { requestIP(req: Request): { address: string } | null }
+>(
+  handler: (
+    req: Request,
+    server: S,
+    authenticate: () => Principal
+  ) => Promise<Response | undefined>
+): (req: Request, server: S) => Promise<Response | undefined> {
+  return instrumentFetch(
+    auditFetch(
+      {
+        log: audit,
+        authenticate: (req) => apiKeys.authenticate(req),
+        describe: (pathname, body, created) => ({
+          route: routeLabel(pathname),
+          target: auditTarget(pathname, body, created),
+        }),
+      },
+      handler
+    )
+  );
+}
+
+// Run an action over several instances, `concurrency` at a time. Unless
+// continueOnError is set, the first failed batch skips the remaining ids.
+async function runBulkAction(
+  input: BulkActionInput,
+  ids: string[]
+): Promise<{ results: ActionResult[]; skipped: string[] }> {
+  const run: Record<BulkAction, (id: string) => Promise<unknown>> = {
+    stop: (id) => manager.stopInstance(id, input),
+    start: (id) => manager.startInstance(id, input),
+    restart: (id) => manager.restartInstance(id, input),
+    migrate: (id) =>
+      manager.update(id, {
+        frpsVersion: input.frpsVersion,
+        timeoutMs: input.timeoutMs,
+        graceMs: input.graceMs,
+      }),
+  };
+  const results: ActionResult[] = [];
+  for (let i = 0; i < ids.length; i += input.concurrency) {
+    const batch = await Promise.all(
+      ids.slice(i, i + input.concurrency).map(async (id) => {
+        try {
+          await run[input.action](id);
+          const meta = manager.get(id);
+          if (!meta) throw new HttpError(404, "not found");
+          return { id, ok: true as const, state: meta.state };
+        } catch (e) {
+          if (!(e instanceof HttpError)) console.error(e);
+          return {
+            id,
+            ok: false as const,
+            status: e instanceof HttpError ? e.status : 500,
+            error: e instanceof HttpError ? e.message : "internal error",
+          };
+        }
+      })
+    );
+    results.push(...batch);
+    if (!input.continueOnError && batch.some((r) => !r.ok))
+      return { results, skipped: ids.slice(i + input.concurrency) };
+  }
+  return { results, skipped: [] };
+}
+
+const server = Bun.serve<LogSocketData, {}>({
   port: Number(process.env.PORT || 3000),
-  fetch: async (req) => {
+  fetch: serveFetch(async (req, server, authenticate) => {
     try {
       const url = parseUrl(req);
       if (url.pathname === "/healthz") return textResponse("ok");
 
       // Authenticate all other endpoints
-      requireAuth(req, apiSecret);
+      const principal = authenticate();
 
       if (req.method === "GET" && url.pathname === "/frps") {
-        const list = manager.list().map((p) => serializeMeta(p));
+        requireScope(principal, "frps:read");
+        const raw = url.searchParams.get("selector");
+        const selector = raw !== null ? parseSelector(raw) : null;
+        const version = url.searchParams.get("frpsVersion")?.replace(/^v/, "");
+        const list = manager
+          .list()
+          .filter((p) => canAccessId(principal, p.id))
+          .filter((p) => !selector || matchesSelector(p.labels, selector))
+          .filter((p) => !version || p.frpsVersion === version)
+          .map((p) => serializeMeta(p));
+        const sort = url.searchParams.get("sort");
+        if (sort) {
+          if (!Object.hasOwn(USAGE_SORT_KEYS, sort))
+            throw new HttpError(
+              400,
+              `sort must be one of ${Object.keys(USAGE_SORT_KEYS).join(", ")}`
+            );
+          const key = USAGE_SORT_KEYS[sort as keyof typeof USAGE_SORT_KEYS];
+          // Instances without a reading (stopped or not sampled yet) go last
+          const value = (p: (typeof list)[number]) => p.usage?.[key] ?? -1;
+          list.sort((a, b) => value(b) - value(a));
+        }
         return jsonResponse(list);
       }
 
+      if (url.pathname === "/keys" || KEY_ROUTE.test(url.pathname)) {
+        requireScope(principal, "keys:admin");
+        const keyMatch = url.pathname.match(KEY_ROUTE);
+        if (req.method === "GET" && !keyMatch) {
+          return jsonResponse(
+            apiKeys
+              .list()
+              .filter((k) => grantError(principal, k) === null)
+              .map((k) => serializeKey(k))
+          );
+        }
+        if (req.method === "POST" && !keyMatch) {
+          const input = validateCreateKeyBody(await readJson(req), API_SCOPES);
+          assertGrantable(principal, input);
+          const { key, token } = await apiKeys.create(input);
+          return jsonResponse({ ...serializeKey(key), token }, { status: 201 });
+        }
+        if (req.method === "DELETE" && keyMatch) {
+          const target = apiKeys.get(decodeURIComponent(keyMatch[1]!));
+          if (!target) throw new HttpError(404, "not found");
+          assertGrantable(principal, target);
+          const key = (await apiKeys.revoke(target.id))!;
+          return jsonResponse({ ok: true, key: serializeKey(key) });
+        }
+      }
+
+      // GET /webhooks, POST /webhooks, DELETE /webhooks/:id,
+      // GET /webhooks/:id/deliveries?status=failed&limit=50
+      const webhookMatch = url.pathname.match(WEBHOOK_ROUTE);
+      if (url.pathname === "/webhooks" || webhookMatch) {
+        requireScope(principal, "webhooks:admin");
+        requireAllIds(principal);
+        if (req.method === "GET" && !webhookMatch) {
+          return jsonResponse(webhooks.list().map((w) => serializeWebhook(w)));
+        }
+        if (req.method === "POST" && !webhookMatch) {
+          const input = validateCreateWebhookBody(
+            await readJson(req),
+            WEBHOOK_EVENTS
+          );
+          const hook = await webhooks.create(input);
+          return jsonResponse(
+            { ...serializeWebhook(hook), secret: hook.secret },
+            { status: 201 }
+          );
+        }
+        const id = webhookMatch ? decodeURIComponent(webhookMatch[1]!) : "";
+        if (req.method === "DELETE" && webhookMatch && !webhookMatch[2]) {
+          if (!(await webhooks.delete(id)))
+            throw new HttpError(404, "not found");
+          return jsonResponse({ ok: true });
+        }
+        if (req.method === "GET" && webhookMatch?.[2]) {
+          if (!webhooks.get(id)) throw new HttpError(404, "not found");
+          const { status, limit } = parseDeliveriesQuery(url);
+          const list = webhooks
+            .history(id)
+            .filter((d) => !status || d.status === status);
+          return jsonResponse(list.slice(0, limit));
+        }
+      }
+
+      // GET /audit?since=2024-05-01T00:00:00Z&until=…&target=cust-42&actor=key_…
+      if (req.method === "GET" && url.pathname === "/audit") {
+        requireScope(principal, "audit:read");
+        requireAllIds(principal);
+        return jsonResponse(await audit.query(parseAuditFilter(url)));
+      }
+
+      if (req.method === "GET" && url.pathname === "/metrics") {
+        requireScope(principal, "metrics:read");
+        return textResponse(await renderMetrics(manager, metrics), {
+          headers: { "content-type": "text/plain; version=0.0.4" },
+        });
+      }
+
+      if (req.method === "GET" && url.pathname === "/binaries") {
+        requireScope(principal, "frps:read");
+        await binaries.scan();
+        const latest = binaries.latest();
+        const instances = manager
+          .list()
+          .filter((p) => canAccessId(principal, p.id));
+        return jsonResponse(
+          binaries.list().map((b) => ({
+            ...b,
+            latest: b === latest,
+            instances: instances
+              .filter((p) => p.binaryPath === b.path)
+              .map((p) => p.id),
+          }))
+        );
+      }
+
+      if (req.method === "GET" && url.pathname === "/ports") {
+        requireScope(principal, "frps:read");
+        return jsonResponse({
+          pool: portAllocator.poolRange(),
+          holdings: portAllocator
+            .holdings()
+            .filter((h) => canAccessId(principal, h.id)),
+        });
+      }
+
+      // Dry run: validate a create body without starting anything
+      if (req.method === "POST" && url.pathname === "/frps/validate") {
+        requireScope(principal, "frps:write");
+        const input = validateCreateBody(await readJson(req));
+        requireNewIdAccess(principal, input.id);
+        await binaries.resolve(input);
+        const toml = await manager.previewPorts(createBodyToml(input));
+        const config = assertValidFrpsConfig(toml);
+        return jsonResponse({ valid: true, toml, config });
+      }
+
       if (req.method === "POST" && url.pathname === "/frps") {
-        const body = await readJson(req);
-        const meta = await manager.create(validateCreateBody(body));
+        requireScope(principal, "frps:write");
+        const input = validateCreateBody(await readJson(req));
+        requireNewIdAccess(principal, input.id);
+        const meta = await manager.create(input);
         return jsonResponse(serializeMeta(meta), { status: 201 });
       }
 
-      // /frps/:id and /frps/:id/logs
-      const frpsMatch = url.pathname.match(/^\/frps\/([^\/]+)(?:\/(logs))?$/);
+      // Stop, start or restart several instances, by ids or label selector
+      if (req.method === "POST" && url.pathname === "/frps/actions") {
+        requireScope(principal, "frps:write");
+        const input = validateBulkActionBody(await readJson(req));
+        let ids: string[];
+        if (input.ids) {
+          for (const id of input.ids) requireIdAccess(principal, id);
+          ids = input.ids;
+        } else {
+          ids = manager
+            .list()
+            .filter((p) => canAccessId(principal, p.id))
+            .filter((p) => matchesSelector(p.labels, input.selector!))
+            .map((p) => p.id);
+        }
+        const { results, skipped } = await runBulkAction(input, ids);
+        return jsonResponse({
+          action: input.action,
+          ok: results.every((r) => r.ok) && skipped.length === 0,
+          results,
+          skipped,
+        });
+      }
+
+      if (req.method === "GET" && url.pathname === "/tunnels") {
+        requireScope(principal, "frps:read");
+        const list = tunnels
+          .list()
+          .filter((p) => canAccessId(principal, p.id))
+          .map((p) => serializeTunnel(p));
+        return jsonResponse(list);
+      }
+
+      if (req.method === "POST" && url.pathname === "/tunnels") {
+        requireScope(principal, "frps:write");
+        const input = validateCreateTunnelBody(await readJson(req));
+        requireNewIdAccess(principal, input.instance.id);
+        const meta = await tunnels.create(input);
+        return jsonResponse(serializeTunnel(meta), { status: 201 });
+      }
+
+      const tunnelMatch = url.pathname.match(TUNNEL_ROUTE);
+      if (tunnelMatch) {
+        const id = decodeURIComponent(tunnelMatch[1]!);
+        requireIdAccess(principal, id);
+        if (req.method === "GET") {
+          requireScope(principal, "frps:read");
+          const meta = tunnels.get(id);
+          if (!meta) throw new HttpError(404, "not found");
+          return jsonResponse(serializeTunnel(meta));
+        }
+        if (req.method === "DELETE") {
+          requireScope(principal, "frps:write");
+          const force = url.searchParams.get("force") === "true";
+          const purge = url.searchParams.get("purge") === "true";
+          const timeoutMs = Number(url.searchParams.get("timeoutMs") || 3000);
+          const result = await tunnels.delete(id, {
+            force,
+            timeoutMs,
+            purge,
+          });
+          return jsonResponse({ ok: true, ...result });
+        }
+      }
+
+      // /frps/:id, /frps/:id/{logs,config,proxies,clients,serverinfo} and
+      // /frps/:id/revisions[/:revision]
+      const frpsMatch = url.pathname.match(FRPS_ROUTE);
       if (frpsMatch) {
         const id = decodeURIComponent(frpsMatch[1]!);
         const sub = frpsMatch[2];
+        const revision = frpsMatch[3];
+        requireIdAccess(principal, id);
+        // Generating an frpc config with POST changes nothing
+        requireScope(
+          principal,
+          sub === "logs"
+            ? "logs:read"
+            : req.method === "GET" || sub?.startsWith("frpc.")
+            ? "frps:read"
+            : "frps:write"
+        );
         const meta = manager.get(id);
-        if (!meta) throw new HttpError(404, "not found");
+        if (!meta) {
+          // Logs of an instance deleted without purge stay on disk
+          if (sub === "logs" && req.method === "GET") {
+            assertSafeId(id);
+            const dir = manager.logDir(id);
+            if (!existsSync(dir)) throw new HttpError(404, "not found");
+            const query = parseLogQuery(url);
+            return logsResponse(await readLogFiles(dir, query), url);
+          }
+          throw new HttpError(404, "not found");
+        }
 
         if (!sub) {
           if (req.method === "GET") {
-            return jsonResponse(serializeMeta(meta));
+            return jsonResponse({
+              ...serializeMeta(meta),
+              usageHistory: meta.usage.toArray(),
+            });
+          }
+          if (req.method === "PATCH") {
+            const body = validateUpdateBody(await readJson(req));
+            const updated = meta.tunnel
+              ? await tunnels.update(id, body)
+              : await manager.update(id, body);
+            return jsonResponse(serializeMeta(updated));
           }
           if (req.method === "DELETE") {
+            if (meta.tunnel)
+              throw new HttpError(
+                409,
+                `frps ${id} belongs to a tunnel; delete it with DELETE /tunnels/${id}`
+              );
             const force = url.searchParams.get("force") === "true";
             const purge = url.searchParams.get("purge") === "true";
             const timeoutMs = Number(url.searchParams.get("timeoutMs") || 3000);
-            const stopped = await manager.stop(id, { force, timeoutMs, purge });
+            const stopped = await manager.stop(id, {
+              force,
+              timeoutMs,
+              purge,
+            });
             return jsonResponse({ ok: true, stopped });
           }
+        } else if (sub === "stop" || sub === "start" || sub === "restart") {
+          if (req.method === "POST") {
+            const options = parseActionOptions(url);
+            const updated =
+              sub === "stop"
+                ? await manager.stopInstance(id, options)
+                : sub === "start"
+                ? await manager.startInstance(id, options)
+                : await manager.restartInstance(id, options);
+            return jsonResponse(serializeMeta(updated));
+          }
+        } else if (sub === "frpc.toml" || sub === "frpc.json") {
+          // GET takes serverAddr and protocol from the query, POST also
+          // proxy templates from the body
+          if (req.method === "GET" || req.method === "POST") {
+            const options = validateFrpcBody(
+              req.method === "POST"
+                ? await readJson(req)
+                : {
+                    serverAddr: url.searchParams.get("serverAddr") ?? undefined,
+                    protocol: url.searchParams.get("protocol") ?? undefined,
+                  }
+            );
+            const serverAddr =
+              options.serverAddr ?? process.env.FRPS_PUBLIC_ADDR;
+            if (!serverAddr)
+              throw new HttpError(
+                400,
+                "serverAddr is required when FRPS_PUBLIC_ADDR is not set"
+              );
+            const secrets = wantsSecrets(principal, url);
+            const toml = await readFile(meta.configPath, "utf8").catch(() => {
+              throw new HttpError(404, "config file not found");
+            });
+            const serverConfig = parseToml(toml);
+            const { config, warnings } = buildFrpcConfig(
+              secrets ? serverConfig : redactConfig(serverConfig),
+              serverAddr,
+              options
+            );
+            if (!secrets && isPlainObject(config.auth) && config.auth.token)
+              warnings.push(
+                "auth.token is redacted; request with includeSecrets=true and frps:write to include it"
+              );
+            const frpcToml = generateToml(config);
+            if (sub === "frpc.json")
+              return jsonResponse({ id, config, toml: frpcToml, warnings });
+            return textResponse(
+              warnings.map((w) => `# ${w}\n`).join("") + frpcToml
+            );
+          }
         } else if (sub === "logs") {
           if (req.method === "GET") {
-            const n = url.searchParams.get("n");
-            const limit = n
-              ? Math.max(1, Math.min(10000, Number(n)))
-              : undefined;
-            const lines = meta.logBuffer.toArray(limit);
-            return textResponse(lines.join("\n"));
+            const query = parseLogQuery(url);
+            if (url.searchParams.get("follow") === "true") {
+              const { limit, stream, grep } = query;
+              const afterSeq = parseAfterSeq(req, url);
+              const options = { afterSeq, limit, stream, grep };
+              if (req.headers.get("upgrade")?.toLowerCase() === "websocket") {
+                const data: LogSocketData = { id, ...options };
+                if (server.upgrade(req, { data })) return undefined;
+                throw new HttpError(400, "websocket upgrade failed");
+              }
+              // Keep the event stream open past the idle timeout
+              server.timeout(req, 0);
+              return followLogsSse(meta, options);
+            }
+            // Filters are answered from the log files, which reach further
+            // back than the in-memory buffer
+            const { since, until, stream, grep } = query;
+            const entries =
+              since !== undefined || until !== undefined || stream || grep
+                ? await readLogFiles(manager.logDir(id), query)
+                : meta.logBuffer.entries({ limit: query.limit });
+            return logsResponse(entries, url);
+          }
+        } else if (sub === "revisions") {
+          if (req.method === "GET" && revision === undefined) {
+            return jsonResponse({
+              revision: meta.revision,
+              history: meta.history,
+            });
+          }
+          if (req.method === "GET") {
+            const n = Number(revision);
+            const entry = meta.history.find((h) => h.revision === n);
+            const secrets = wantsSecrets(principal, url);
+            const toml = await manager.readRevision(meta, n);
+            if (!entry || toml === null) throw new HttpError(404, "not found");
+            return jsonResponse({
+              ...entry,
+              toml: secrets ? toml : redactToml(toml),
+            });
+          }
+        } else if (sub === "serverinfo") {
+          if (req.method === "GET") {
+            return jsonResponse(await queryFrpsApi(meta, "/api/serverinfo"));
+          }
+        } else if (sub === "proxies") {
+          if (req.method === "GET") {
+            const type = url.searchParams.get("type") || undefined;
+            if (type && !FRPS_PROXY_TYPES.includes(type))
+              throw new HttpError(
+                400,
+                `type must be one of ${FRPS_PROXY_TYPES.join(", ")}`
+              );
+            return jsonResponse(await listFrpsProxies(meta, type));
+          }
+        } else if (sub === "clients") {
+          if (req.method === "GET") {
+            // frps versions without a clients API only report counts
+            const clients = await queryFrpsApi(meta, "/api/clients");
+            if (clients !== null) return jsonResponse(clients);
+            const info = await queryFrpsApi(meta, "/api/serverinfo");
+            return jsonResponse({
+              clientCounts: info?.clientCounts ?? 0,
+              curConns: info?.curConns ?? 0,
+              clients: null,
+            });
+          }
+        } else if (sub === "config") {
+          if (req.method === "GET") {
+            const secrets = wantsSecrets(principal, url);
+            const raw = await readFile(meta.configPath, "utf8").catch(() => {
+              throw new HttpError(404, "config file not found");
+            });
+            const toml = secrets ? raw : redactToml(raw);
+            if (url.searchParams.get("format") === "toml") {
+              if (toml === null)
+                throw new HttpError(
+                  409,
+                  "config is not valid TOML, so its secrets cannot be redacted; use includeSecrets=true"
+                );
+              return textResponse(toml);
+            }
+            let config: JsonRecord | null = null;
+            let parseError: string | null = null;
+            try {
+              config = parseToml(raw);
+            } catch (e) {
+              parseError = e instanceof Error ? e.message : String(e);
+            }
+            return jsonResponse({
+              id,
+              configPath: meta.configPath,
+              toml,
+              config: config && !secrets ? redactConfig(config) : config,
+              parseError,
+            });
           }
         }
       }
@@ -421,11 +3183,34 @@ const server = Bun.serve({
       return jsonResponse({ error: "not found" }, { status: 404 });
     } catch (e) {
       if (e instanceof HttpError) {
-        return jsonResponse({ error: e.message }, { status: e.status });
+        return jsonResponse(
+          { error: e.message, ...e.details },
+          { status: e.status }
+        );
       }
       console.error(e);
       return jsonResponse({ error: "internal error" }, { status: 500 });
     }
+  }),
+  websocket: {
+    open(ws) {
+      const meta = manager.get(ws.data.id);
+      if (!meta) {
+        ws.close(1000, "deleted");
+        return;
+      }
+      ws.data.unsubscribe = manager.follow(meta, ws.data, {
+        onLine: (entry) => ws.send(JSON.stringify({ type: "log", ...entry })),
+        onEnd: (reason) => {
+          ws.send(JSON.stringify({ type: "end", reason }));
+          ws.close(1000, reason);
+        },
+      });
+    },
+    message() {},
+    close(ws) {
+      ws.data.unsubscribe?.();
+    },
   },
 });
 
@@ -433,25 +3218,170 @@ console.log(
   `frps management server listening on http://localhost:${server.port}`
 );
 
+// Resume point for followers: `afterSeq` query param, or the standard
+// Last-Event-ID header sent by reconnecting EventSource clients
+function parseAfterSeq(req: Request, url: URL): number | undefined {
+  const raw =
+    url.searchParams.get("afterSeq") ?? req.headers.get("last-event-id");
+  if (raw === null || raw === "") return undefined;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 0)
+    throw new HttpError(400, "afterSeq must be non-negative integer");
+  return n;
+}
+
+function followLogsSse(
+  meta: ManagedProcessMeta,
+  options: FollowOptions
+): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const heartbeat = setInterval(() => send(": ping\n\n"), 15000);
+      let unsubscribe = () => {};
+      cleanup = () => {
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      unsubscribe = manager.follow(meta, options, {
+        onLine: (entry) =>
+          send(
+            `id: ${entry.seq}\nevent: log\ndata: ${JSON.stringify(entry)}\n\n`
+          ),
+        onEnd: (reason) => {
+          send(`event: end\ndata: ${JSON.stringify({ reason })}\n\n`);
+          cleanup();
+          controller.close();
+        },
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+  return new Response(stream, {
+    headers: {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache",
+    },
+  });
+}
+
+function parseLogQuery(url: URL): LogQuery {
+  const query: LogQuery = {};
+  const n = url.searchParams.get("n");
+  if (n) query.limit = Math.max(1, Math.min(10000, Number(n)));
+  for (const key of ["since", "until"] as const) {
+    const raw = url.searchParams.get(key);
+    if (!raw) continue;
+    // Epoch milliseconds or any date string Date.parse understands
+    const ts = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+    if (!Number.isFinite(ts))
+      throw new HttpError(400, `${key} must be epoch ms or ISO date`);
+    query[key] = ts;
+  }
+  const stream = url.searchParams.get("stream");
+  if (stream) {
+    if (!LOG_STREAMS.includes(stream as LogStream))
+      throw new HttpError(
+        400,
+        `stream must be one of ${LOG_STREAMS.join(", ")}`
+      );
+    query.stream = stream as LogStream;
+  }
+  const grep = url.searchParams.get("grep");
+  if (grep) {
+    try {
+      query.grep = new RegExp(grep);
+    } catch {
+      throw new HttpError(400, "grep must be a valid regular expression");
+    }
+  }
+  return query;
+}
+
+function logsResponse(entries: LogEntry[], url: URL): Response {
+  if (url.searchParams.get("format") === "json") return jsonResponse(entries);
+  return textResponse(entries.map((e) => e.line).join("\n"));
+}
+
 function serializeMeta(p: ManagedProcessMeta) {
   return {
     id: p.id,
     binaryPath: p.binaryPath,
+    frpsVersion: p.frpsVersion,
     configPath: p.configPath,
     workDir: p.workDir,
     args: p.args,
     envKeys: Object.keys(p.env),
+    logLines: p.logLines,
+    recovery: p.recovery,
+    restartPolicy: p.restart.policy,
+    restart: p.restart,
+    restarts: p.supervisor.restarts,
+    lastExitReason: p.supervisor.lastExitReason,
+    nextRetryAt: p.supervisor.nextRetryAt,
+    gaveUp: p.supervisor.gaveUp,
+    revision: p.revision,
+    createdAt: p.createdAt,
+    labels: p.labels,
     state: p.state,
+    usage: p.state.status === "running" ? p.usage.toArray(1)[0] ?? null : null,
   };
 }
 
-function validateCreateBody(body: any) {
+function serializeTunnel(p: ManagedProcessMeta) {
+  return { id: p.id, ...p.tunnel!, instance: serializeMeta(p) };
+}
+
+function validateCreateTunnelBody(body: any): TunnelInput {
+  if (!body || typeof body !== "object")
+    throw new HttpError(400, "body must be object");
+  const { server, hosts, upstreamHost, ...instance } = body;
+  const out: TunnelInput = {
+    server: "srv0",
+    hosts: [],
+    upstreamHost: "127.0.0.1",
+    instance: validateCreateBody(instance),
+  };
+  if (server !== undefined) {
+    if (typeof server !== "string" || !server)
+      throw new HttpError(400, "server must be non-empty string");
+    out.server = server;
+  }
+  if (typeof hosts === "string" && hosts) {
+    out.hosts = [hosts];
+  } else if (
+    Array.isArray(hosts) &&
+    hosts.length > 0 &&
+    hosts.every((h: unknown) => typeof h === "string" && h)
+  ) {
+    out.hosts = hosts;
+  } else {
+    throw new HttpError(400, "hosts must be string or non-empty string[]");
+  }
+  if (upstreamHost !== undefined) {
+    if (typeof upstreamHost !== "string" || !upstreamHost)
+      throw new HttpError(400, "upstreamHost must be non-empty string");
+    out.upstreamHost = upstreamHost;
+  }
+  return out;
+}
+
+function validateCreateBody(body: any): CreateInput {
   if (!body || typeof body !== "object")
     throw new HttpError(400, "body must be object");
-  const out: any = {};
+  const out: CreateInput = {};
   if (body.id !== undefined) {
     if (typeof body.id !== "string" || !body.id)
       throw new HttpError(400, "id must be non-empty string");
+    assertSafeId(body.id);
     out.id = body.id;
   }
   if (body.binaryPath !== undefined) {
@@ -459,13 +3389,16 @@ function validateCreateBody(body: any) {
       throw new HttpError(400, "binaryPath must be string");
     out.binaryPath = body.binaryPath;
   }
+  if (body.frpsVersion !== undefined) {
+    out.frpsVersion = validateFrpsVersion(body.frpsVersion);
+  }
   if (body.configToml !== undefined) {
     if (typeof body.configToml !== "string" || !body.configToml)
       throw new HttpError(400, "configToml must be string");
     out.configToml = body.configToml;
   }
   if (body.config !== undefined) {
-    if (typeof body.config !== "object")
+    if (!isPlainObject(body.config))
       throw new HttpError(400, "config must be object");
     out.config = body.config;
   }
@@ -488,12 +3421,333 @@ function validateCreateBody(body: any) {
       throw new HttpError(400, "logLines must be number >= 10");
     out.logLines = Math.floor(n);
   }
+  if (body.logFiles !== undefined) {
+    out.logFiles = validateLogFileOptions(body.logFiles);
+  }
+  if (body.recovery !== undefined) {
+    if (!RECOVERY_POLICIES.includes(body.recovery))
+      throw new HttpError(
+        400,
+        `recovery must be one of ${RECOVERY_POLICIES.join(", ")}`
+      );
+    out.recovery = body.recovery;
+  }
+  if (body.restartPolicy !== undefined || body.restart !== undefined) {
+    out.restart = validateRestartOptions(body.restartPolicy, body.restart);
+  }
+  if (body.stats !== undefined) {
+    out.stats = Boolean(body.stats);
+  }
   if (body.replaceIfExists !== undefined) {
     out.replaceIfExists = Boolean(body.replaceIfExists);
   }
+  if (body.labels !== undefined) {
+    out.labels = validateLabels(body.labels);
+  }
   if (!out.configToml && !out.config) {
     // Provide a minimal default to avoid starting frps without required ports
     throw new HttpError(400, "either configToml or config must be provided");
   }
   return out;
 }
+
+function validateFrpcBody(body: any): FrpcOptions {
+  if (!body || typeof body !== "object")
+    throw new HttpError(400, "body must be object");
+  const out: FrpcOptions = { protocol: "tcp", proxies: [] };
+  if (body.serverAddr !== undefined) {
+    if (typeof body.serverAddr !== "string" || !/^\S+$/.test(body.serverAddr))
+      throw new HttpError(400, "serverAddr must be a host name or IP");
+    out.serverAddr = body.serverAddr;
+  }
+  if (body.protocol !== undefined) {
+    if (!FRPC_PROTOCOLS.includes(body.protocol))
+      throw new HttpError(
+        400,
+        `protocol must be one of ${FRPC_PROTOCOLS.join(", ")}`
+      );
+    out.protocol = body.protocol;
+  }
+  if (body.proxies === undefined) return out;
+  if (!Array.isArray(body.proxies))
+    throw new HttpError(400, "proxies must be array");
+  const names = new Set<string>();
+  body.proxies.forEach((p: any, i: number) => {
+    const at = `proxies[${i}]`;
+    if (!isPlainObject(p)) throw new HttpError(400, `${at} must be object`);
+    if (typeof p.name !== "string" || !p.name)
+      throw new HttpError(400, `${at}.name must be non-empty string`);
+    if (names.has(p.name))
+      throw new HttpError(400, `${at}.name ${p.name} is used twice`);
+    names.add(p.name);
+    if (typeof p.type !== "string" || !FRPC_PROXY_TYPES.includes(p.type))
+      throw new HttpError(
+        400,
+        `${at}.type must be one of ${FRPC_PROXY_TYPES.join(", ")}`
+      );
+    const proxy: FrpcProxyTemplate = {
+      name: p.name,
+      type: p.type as FrpcProxyTemplate["type"],
+      localIP: "127.0.0.1",
+      localPort: 0,
+    };
+    if (p.localIP !== undefined) {
+      if (typeof p.localIP !== "string" || !p.localIP)
+        throw new HttpError(400, `${at}.localIP must be non-empty string`);
+      proxy.localIP = p.localIP;
+    }
+    const localPort = Number(p.localPort);
+    if (!Number.isInteger(localPort) || localPort < 1 || localPort > 65535)
+      throw new HttpError(400, `${at}.localPort must be integer 1-65535`);
+    proxy.localPort = localPort;
+    if (proxy.type === "http") {
+      if (p.remotePort !== undefined)
+        throw new HttpError(400, `${at}.remotePort is only for tcp and udp`);
+      if (p.customDomains !== undefined) {
+        if (
+          !Array.isArray(p.customDomains) ||
+          p.customDomains.length === 0 ||
+          !p.customDomains.every((d: unknown) => typeof d === "string" && d)
+        )
+          throw new HttpError(
+            400,
+            `${at}.customDomains must be non-empty string[]`
+          );
+        proxy.customDomains = p.customDomains;
+      }
+      if (p.subdomain !== undefined) {
+        if (typeof p.subdomain !== "string" || !p.subdomain)
+          throw new HttpError(400, `${at}.subdomain must be non-empty string`);
+        proxy.subdomain = p.subdomain;
+      }
+      if (!proxy.customDomains && proxy.subdomain === undefined)
+        throw new HttpError(
+          400,
+          `${at} of type http needs customDomains or subdomain`
+        );
+    } else {
+      if (p.customDomains !== undefined || p.subdomain !== undefined)
+        throw new HttpError(
+          400,
+          `${at}.customDomains and subdomain are only for http`
+        );
+      if (p.remotePort !== undefined) {
+        const remotePort = Number(p.remotePort);
+        if (
+          !Number.isInteger(remotePort) ||
+          remotePort < 0 ||
+          remotePort > 65535
+        )
+          throw new HttpError(400, `${at}.remotePort must be integer 0-65535`);
+        proxy.remotePort = remotePort;
+      }
+    }
+    out.proxies.push(proxy);
+  });
+  return out;
+}
+
+function validateFrpsVersion(version: any): string {
+  if (typeof version !== "string" || !/^v?\d+\.\d+\.\d+[\w.+-]*$/.test(version))
+    throw new HttpError(400, "frpsVersion must be a version like 0.64.0");
+  return version.replace(/^v/, "");
+}
+
+function validateLabels(labels: any): Record<string, string> {
+  if (!isPlainObject(labels))
+    throw new HttpError(400, "labels must be object of strings");
+  const entries = Object.entries(labels);
+  if (entries.length > MAX_LABELS)
+    throw new HttpError(400, `labels must have at most ${MAX_LABELS} entries`);
+  for (const [key, value] of entries) {
+    if (!LABEL_KEY_RE.test(key))
+      throw new HttpError(
+        400,
+        `label key ${key} must be 1-63 letters, digits or ._/- characters`
+      );
+    if (typeof value !== "string" || value.length > 63 || /[,=!]/.test(value))
+      throw new HttpError(
+        400,
+        `label ${key} must be a string of at most 63 characters without , = or !`
+      );
+  }
+  return labels as Record<string, string>;
+}
+
+// force, timeoutMs and graceMs of a single lifecycle action, from the query
+function parseActionOptions(url: URL): ActionOptions {
+  const out: ActionOptions = {
+    force: url.searchParams.get("force") === "true",
+  };
+  for (const key of ["timeoutMs", "graceMs"] as const) {
+    const raw = url.searchParams.get(key);
+    if (raw === null) continue;
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n < 0 || n > 60000)
+      throw new HttpError(400, `${key} must be number 0-60000`);
+    out[key] = Math.floor(n);
+  }
+  return out;
+}
+
+function validateBulkActionBody(body: any): BulkActionInput {
+  if (!body || typeof body !== "object")
+    throw new HttpError(400, "body must be object");
+  if (!BULK_ACTIONS.includes(body.action))
+    throw new HttpError(
+      400,
+      `action must be one of ${BULK_ACTIONS.join(", ")}`
+    );
+  const out: BulkActionInput = {
+    action: body.action,
+    force: Boolean(body.force),
+    concurrency: 1,
+    continueOnError: Boolean(body.continueOnError),
+  };
+  if (out.action === "migrate") {
+    if (body.frpsVersion === undefined)
+      throw new HttpError(400, "frpsVersion is required to migrate");
+    out.frpsVersion = validateFrpsVersion(body.frpsVersion);
+  }
+  if ((body.ids === undefined) === (body.selector === undefined))
+    throw new HttpError(400, "provide either ids or selector");
+  if (body.ids !== undefined) {
+    if (
+      !Array.isArray(body.ids) ||
+      body.ids.length === 0 ||
+      !body.ids.every((v: any) => typeof v === "string" && v)
+    )
+      throw new HttpError(400, "ids must be non-empty string[]");
+    out.ids = [...new Set<string>(body.ids)];
+  } else {
+    if (typeof body.selector !== "string")
+      throw new HttpError(400, "selector must be string");
+    out.selector = parseSelector(body.selector);
+  }
+  for (const key of ["timeoutMs", "graceMs"] as const) {
+    if (body[key] === undefined) continue;
+    const n = Number(body[key]);
+    if (!Number.isFinite(n) || n < 0 || n > 60000)
+      throw new HttpError(400, `${key} must be number 0-60000`);
+    out[key] = Math.floor(n);
+  }
+  if (body.concurrency !== undefined) {
+    const n = Number(body.concurrency);
+    if (!Number.isInteger(n) || n < 1 || n > 100)
+      throw new HttpError(400, "concurrency must be integer 1-100");
+    out.concurrency = n;
+  }
+  return out;
+}
+
+function validateRestartOptions(
+  policy: any,
+  options: any
+): Partial<RestartOptions> {
+  const out: Partial<RestartOptions> = {};
+  if (policy !== undefined) {
+    if (!RESTART_POLICIES.includes(policy))
+      throw new HttpError(
+        400,
+        `restartPolicy must be one of ${RESTART_POLICIES.join(", ")}`
+      );
+    out.policy = policy;
+  }
+  if (options === undefined) return out;
+  if (!options || typeof options !== "object" || Array.isArray(options))
+    throw new HttpError(400, "restart must be object");
+  const numeric: Array<[Exclude<keyof RestartOptions, "policy">, number]> = [
+    ["maxRetries", 0],
+    ["backoffMs", 0],
+    ["maxBackoffMs", 0],
+    ["crashLoopWindowMs", 1000],
+    ["crashLoopMaxRestarts", 1],
+  ];
+  for (const [key, min] of numeric) {
+    if (options[key] === undefined) continue;
+    const n = Number(options[key]);
+    if (!Number.isFinite(n) || n < min)
+      throw new HttpError(400, `restart.${key} must be number >= ${min}`);
+    out[key] = Math.floor(n);
+  }
+  return out;
+}
+
+function validateLogFileOptions(options: any): Partial<LogFileOptions> {
+  if (!options || typeof options !== "object" || Array.isArray(options))
+    throw new HttpError(400, "logFiles must be object");
+  const out: Partial<LogFileOptions> = {};
+  if (options.maxBytes !== undefined) {
+    const n = Number(options.maxBytes);
+    if (!Number.isFinite(n) || n < 4096)
+      throw new HttpError(400, "logFiles.maxBytes must be number >= 4096");
+    out.maxBytes = Math.floor(n);
+  }
+  if (options.maxFiles !== undefined) {
+    const n = Number(options.maxFiles);
+    if (!Number.isFinite(n) || n < 0 || n > 100)
+      throw new HttpError(400, "logFiles.maxFiles must be number 0-100");
+    out.maxFiles = Math.floor(n);
+  }
+  return out;
+}
+
+function validateUpdateBody(body: any): UpdateInput {
+  if (!body || typeof body !== "object")
+    throw new HttpError(400, "body must be object");
+  const out: UpdateInput = {};
+  if (body.configToml !== undefined) {
+    if (typeof body.configToml !== "string" || !body.configToml)
+      throw new HttpError(400, "configToml must be string");
+    out.configToml = body.configToml;
+  }
+  if (body.config !== undefined) {
+    if (!isPlainObject(body.config))
+      throw new HttpError(400, "config must be object");
+    out.config = body.config;
+  }
+  if (out.configToml && out.config)
+    throw new HttpError(400, "provide either configToml or config, not both");
+  if (body.env !== undefined) {
+    if (
+      !isPlainObject(body.env) ||
+      !Object.values(body.env).every((v) => typeof v === "string")
+    )
+      throw new HttpError(400, "env must be object of strings");
+    out.env = body.env;
+  }
+  if (body.args !== undefined) {
+    if (
+      !Array.isArray(body.args) ||
+      !body.args.every((v: any) => typeof v === "string")
+    )
+      throw new HttpError(400, "args must be string[]");
+    out.args = body.args;
+  }
+  for (const key of ["graceMs", "timeoutMs"] as const) {
+    if (body[key] === undefined) continue;
+    const n = Number(body[key]);
+    if (!Number.isFinite(n) || n < 0 || n > 60000)
+      throw new HttpError(400, `${key} must be number 0-60000`);
+    out[key] = Math.floor(n);
+  }
+  if (body.labels !== undefined) {
+    out.labels = validateLabels(body.labels);
+  }
+  if (body.frpsVersion !== undefined) {
+    out.frpsVersion = validateFrpsVersion(body.frpsVersion);
+  }
+  if (
+    out.configToml === undefined &&
+    out.config === undefined &&
+    out.env === undefined &&
+    out.args === undefined &&
+    out.labels === undefined &&
+    out.frpsVersion === undefined
+  )
+    throw new HttpError(
+      400,
+      "one of configToml, config, env, args, labels or frpsVersion is required"
+    );
+  return out;
+}
@@ -0,0 +1,223 @@
+import { readFile } from "node:fs/promises";
+import { HttpError, timingSafeEqual, writeFileAtomic } from "./http.ts";
+
+// A key's scopes are S values or "*", which grants every scope
+export type ApiKey<S extends string = string> = {
+  id: string;
+  name: string;
+  // sha256 of the token; the token itself is only returned on creation
+  hash: string;
+  scopes: Array<S | "*">;
+  // Ids the key may touch, or null for all of them
+  idPrefixes: string[] | null;
+  createdAt: number;
+  revokedAt: number | null;
+};
+
+export type Principal<S extends string = string> = Pick<
+  ApiKey<S>,
+  "id" | "name" | "scopes" | "idPrefixes"
+>;
+
+export type ApiKeyStoreOptions = {
+  // Principal name of the root secret, e.g. "API_SECRET"
+  rootName: string;
+  // Prepended to new tokens so they can be told apart, e.g. "frpm_"
+  tokenPrefix: string;
+};
+
+// Named API keys, hashed at rest in a JSON file. The root secret stays
+// valid as a key with every scope, so there is always a way in to manage
+// the others.
+export class ApiKeyStore<S extends string> {
+  private readonly keys = new Map<string, ApiKey<S>>();
+  private readonly file: string;
+  private readonly rootHash: string;
+  private readonly options: ApiKeyStoreOptions;
+
+  constructor(file: string, rootSecret: string, options: ApiKeyStoreOptions) {
+    this.file = file;
+    this.rootHash = hashToken(rootSecret);
+    this.options = options;
+  }
+
+  async load() {
+    const raw = await readFile(this.file, "utf8").catch(() => null);
+    if (raw === null) return;
+    const data = JSON.parse(raw) as { version: 1; keys: ApiKey<S>[] };
+    for (const key of data.keys) this.keys.set(key.id, key);
+  }
+
+  list(): ApiKey<S>[] {
+    return Array.from(this.keys.values());
+  }
+
+  get(id: string): ApiKey<S> | undefined {
+    return this.keys.get(id);
+  }
+
+  authenticate(req: Request): Principal<S> {
+    const auth = req.headers.get("authorization");
+    if (!auth || !auth.startsWith("Bearer "))
+      throw new HttpError(401, "missing bearer token");
+    const hash = hashToken(auth.slice("Bearer ".length).trim());
+    if (timingSafeEqual(hash, this.rootHash))
+      return {
+        id: "root",
+        name: this.options.rootName,
+        scopes: ["*"],
+        idPrefixes: null,
+      };
+    for (const key of this.keys.values()) {
+      if (key.revokedAt === null && timingSafeEqual(hash, key.hash)) return key;
+    }
+    throw new HttpError(403, "invalid token");
+  }
+
+  async create(
+    input: Pick<ApiKey<S>, "name" | "scopes" | "idPrefixes">
+  ): Promise<{ key: ApiKey<S>; token: string }> {
+    const token = `${this.options.tokenPrefix}${randomToken(32)}`;
+    const key: ApiKey<S> = {
+      id: `key_${randomToken(9)}`,
+      name: input.name,
+      hash: hashToken(token),
+      scopes: input.scopes,
+      idPrefixes: input.idPrefixes,
+      createdAt: Date.now(),
+      revokedAt: null,
+    };
+    this.keys.set(key.id, key);
+    await this.save();
+    return { key, token };
+  }
+
+  async revoke(id: string): Promise<ApiKey<S> | undefined> {
+    const key = this.keys.get(id);
+    if (!key) return undefined;
+    if (key.revokedAt === null) {
+      key.revokedAt = Date.now();
+      await this.save();
+    }
+    return key;
+  }
+
+  private async save() {
+    const data = { version: 1, keys: this.list() };
+    await writeFileAtomic(this.file, JSON.stringify(data, null, 2), 0o600);
+  }
+}
+
+export function hashToken(token: string): string {
+  return new Bun.CryptoHasher("sha256").update(token).digest("hex");
+}
+
+export function randomToken(bytes: number): string {
+  const buf = crypto.getRandomValues(new Uint8Array(bytes));
+  return Buffer.from(buf).toString("base64url");
+}
+
+export function hasScope<S extends string>(
+  principal: Principal<S>,
+  scope: S
+): boolean {
+  return principal.scopes.includes("*") || principal.scopes.includes(scope);
+}
+
+export function requireScope<S extends string>(
+  principal: Principal<S>,
+  scope: S
+) {
+  if (!hasScope(principal, scope))
+    throw new HttpError(403, `key lacks scope ${scope}`);
+}
+
+export function canAccessId(
+  principal: Principal,
+  id: string | undefined
+): boolean {
+  const { idPrefixes } = principal;
+  if (idPrefixes === null) return true;
+  return id !== undefined && idPrefixes.some((p) => id.startsWith(p));
+}
+
+// For calls that see or change more than a single id
+export function requireAllIds(principal: Principal) {
+  if (principal.idPrefixes === null) return;
+  throw new HttpError(
+    403,
+    `key is limited to ids starting with ${principal.idPrefixes.join(", ")}`
+  );
+}
+
+// Keys can only hand out what they have themselves, and only see and
+// revoke keys they could have handed out
+export function grantError<S extends string>(
+  principal: Principal<S>,
+  input: Pick<ApiKey<S>, "scopes" | "idPrefixes">
+): string | null {
+  for (const scope of input.scopes) {
+    if (
+      scope === "*"
+        ? !principal.scopes.includes("*")
+        : !hasScope(principal, scope)
+    )
+      return `cannot grant scope ${scope}`;
+  }
+  const { idPrefixes } = principal;
+  if (idPrefixes === null) return null;
+  if (input.idPrefixes === null) return "cannot grant access to all ids";
+  for (const prefix of input.idPrefixes) {
+    if (!idPrefixes.some((p) => prefix.startsWith(p)))
+      return `cannot grant id prefix ${prefix}`;
+  }
+  return null;
+}
+
+export function assertGrantable<S extends string>(
+  principal: Principal<S>,
+  input: Pick<ApiKey<S>, "scopes" | "idPrefixes">
+) {
+  const error = grantError(principal, input);
+  if (error !== null) throw new HttpError(403, error);
+}
+
+export function serializeKey(k: ApiKey) {
+  const { hash, ...rest } = k;
+  return rest;
+}
+
+export function validateCreateKeyBody<S extends string>(
+  body: any,
+  scopes: readonly S[]
+): Pick<ApiKey<S>, "name" | "scopes" | "idPrefixes"> {
+  if (!body || typeof body !== "object")
+    throw new HttpError(400, "body must be object");
+  if (typeof body.name !== "string" || !body.name.trim())
+    throw new HttpError(400, "name must be non-empty string");
+  const requested: unknown = body.scopes;
+  if (
+    !Array.isArray(requested) ||
+    requested.length === 0 ||
+    !requested.every((s) => s === "*" || scopes.includes(s))
+  )
+    throw new HttpError(
+      400,
+      `scopes must be a non-empty array of ${scopes.join(", ")} or "*"`
+    );
+  let idPrefixes: string[] | null = null;
+  if (body.idPrefixes !== undefined && body.idPrefixes !== null) {
+    if (
+      !Array.isArray(body.idPrefixes) ||
+      body.idPrefixes.length === 0 ||
+      !body.idPrefixes.every((p: unknown) => typeof p === "string" && p)
+    )
+      throw new HttpError(400, "idPrefixes must be non-empty string[]");
+    idPrefixes = body.idPrefixes;
+  }
+  return {
+    name: body.name.trim(),
+    scopes: [...new Set(requested as Array<S | "*">)],
+    idPrefixes,
+  };
+}
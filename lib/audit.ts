@@ -0,0 +1,218 @@
+import { appendFile, readFile, rename, stat } from "node:fs/promises";
+import { HttpError } from "./http.ts";
+
+export type AuditRecord = {
+  ts: number;
+  actor: { id: string; name: string } | null;
+  ip: string | null;
+  method: string;
+  route: string;
+  target: string | null;
+  request: { query?: Record<string, string>; body?: unknown };
+  status: number;
+  durationMs: number;
+};
+
+export type AuditFilter = {
+  since?: number;
+  until?: number;
+  target?: string;
+  // Key id or name
+  actor?: string;
+  limit: number;
+};
+
+// Beyond this size the log moves to <file>.1, replacing the previous one
+const AUDIT_MAX_BYTES = 50 * 1024 * 1024;
+
+// Append-only record of mutating API calls, one JSON object per line
+export class AuditLog {
+  private readonly file: string;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  append(record: AuditRecord): Promise<void> {
+    this.writing = this.writing
+      .then(async () => {
+        const size = await stat(this.file)
+          .then((s) => s.size)
+          .catch(() => 0);
+        if (size > AUDIT_MAX_BYTES) await rename(this.file, `${this.file}.1`);
+        await appendFile(this.file, `${JSON.stringify(record)}\n`, {
+          encoding: "utf8",
+          mode: 0o600,
+        });
+      })
+      .catch((e) => console.error("failed to write audit record:", e));
+    return this.writing;
+  }
+
+  // Newest first, across the current and the rotated file
+  async query(filter: AuditFilter): Promise<AuditRecord[]> {
+    await this.writing;
+    const out: AuditRecord[] = [];
+    for (const file of [this.file, `${this.file}.1`]) {
+      const raw = await readFile(file, "utf8").catch(() => "");
+      const lines = raw.split("\n").filter(Boolean).reverse();
+      for (const line of lines) {
+        let r: AuditRecord;
+        try {
+          r = JSON.parse(line);
+        } catch {
+          continue;
+        }
+        if (filter.since !== undefined && r.ts < filter.since) continue;
+        if (filter.until !== undefined && r.ts > filter.until) continue;
+        if (filter.target !== undefined && r.target !== filter.target) continue;
+        if (
+          filter.actor !== undefined &&
+          r.actor?.id !== filter.actor &&
+          r.actor?.name !== filter.actor
+        )
+          continue;
+        out.push(r);
+        if (out.length >= filter.limit) return out;
+      }
+    }
+    return out;
+  }
+}
+
+const SENSITIVE_KEY_RE =
+  /secret|token|password|passwd|authorization|cookie|private.?key/i;
+
+// Request bodies go into the audit log without credentials: sensitive keys
+// (including header values like Authorization) and env values are
+// redacted, TOML is reduced to its size, and long strings and arrays are
+// cut.
+export function sanitizeForAudit(value: unknown, key = "", depth = 0): unknown {
+  if (SENSITIVE_KEY_RE.test(key)) return "[redacted]";
+  if (key === "configToml" && typeof value === "string")
+    return `[${value.length} bytes of TOML]`;
+  if (key === "env" && value && typeof value === "object")
+    return Object.fromEntries(Object.keys(value).map((k) => [k, "[redacted]"]));
+  if (typeof value === "string")
+    return value.length > 200
+      ? `${value.slice(0, 200)}… (${value.length} chars)`
+      : value;
+  if (Array.isArray(value)) {
+    if (depth >= 4) return "[…]";
+    return value.slice(0, 20).map((v) => sanitizeForAudit(v, "", depth + 1));
+  }
+  if (value && typeof value === "object") {
+    if (depth >= 4) return "{…}";
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [
+        k,
+        sanitizeForAudit(v, k, depth + 1),
+      ])
+    );
+  }
+  return value;
+}
+
+export function parseAuditFilter(url: URL): AuditFilter {
+  const time = (name: string): number | undefined => {
+    const raw = url.searchParams.get(name);
+    if (raw === null) return undefined;
+    const ts = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+    if (Number.isNaN(ts))
+      throw new HttpError(400, `${name} must be epoch ms or an ISO date`);
+    return ts;
+  };
+  const limit = Number(url.searchParams.get("limit") || 100);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 1000)
+    throw new HttpError(400, "limit must be integer 1..1000");
+  return {
+    since: time("since"),
+    until: time("until"),
+    target: url.searchParams.get("target") ?? undefined,
+    actor: url.searchParams.get("actor") ?? undefined,
+    limit,
+  };
+}
+
+const AUDITED_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+export type AuditFetchOptions<P extends { id: string; name: string }> = {
+  log: AuditLog;
+  // Throws when the request carries no valid key
+  authenticate: (req: Request) => P;
+  // Route template and the id the call is about, from the path, the
+  // request body or the created object
+  describe: (
+    pathname: string,
+    body: any,
+    created: any
+  ) => { route: string; target: string | null };
+};
+
+// Authenticate every request once, before the handler, and append an audit
+// record for every mutating call once it has been answered, including
+// calls rejected by auth or validation. The handler gets the result through
+// `authenticate`, which rethrows the auth error, so the recorded actor is
+// the key that made the call even if the call revoked it.
+export function auditFetch<
+  P extends { id: string; name: string },
+  S extends { requestIP(req: Request): { address: string } | null },
+  R extends Response | undefined
+>(
+  options: AuditFetchOptions<P>,
+  handler: (req: Request, server: S, authenticate: () => P) => Promise<R>
+): (req: Request, server: S) => Promise<R> {
+  return async (req, server) => {
+    let principal: P | null = null;
+    let authError: unknown;
+    try {
+      principal = options.authenticate(req);
+    } catch (e) {
+      authError = e;
+    }
+    const authenticate = () => {
+      if (principal === null) throw authError;
+      return principal;
+    };
+    if (!AUDITED_METHODS.includes(req.method))
+      return handler(req, server, authenticate);
+    const startedAt = performance.now();
+    const text = await req
+      .clone()
+      .text()
+      .catch(() => "");
+    const res = await handler(req, server, authenticate);
+    const durationMs = Math.round(performance.now() - startedAt);
+
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      body = `[${text.length} bytes, not JSON]`;
+    }
+    let created: unknown;
+    if (res?.status === 201)
+      created = await res
+        .clone()
+        .json()
+        .catch(() => null);
+    const url = new URL(req.url);
+    const query = Object.fromEntries(url.searchParams);
+    const request: AuditRecord["request"] = {};
+    if (Object.keys(query).length > 0) request.query = query;
+    if (body !== undefined) request.body = sanitizeForAudit(body);
+
+    void options.log.append({
+      ts: Date.now(),
+      actor: principal && { id: principal.id, name: principal.name },
+      ip: server.requestIP(req)?.address ?? null,
+      method: req.method,
+      ...options.describe(url.pathname, body, created),
+      request,
+      status: res?.status ?? 101,
+      durationMs,
+    });
+    return res;
+  };
+}
@@ -0,0 +1,224 @@
+import {
+  chmod,
+  copyFile,
+  mkdir,
+  readdir,
+  rename,
+  rm,
+  stat,
+} from "node:fs/promises";
+import path from "node:path";
+import { HttpError } from "./http.ts";
+
+// An frps executable on the node and the version it reports
+export type FrpsBinary = {
+  path: string;
+  version: string | null;
+  // Why the version could not be detected
+  error: string | null;
+  size: number;
+  modifiedAt: number;
+};
+
+const BINARY_VERSION_TIMEOUT_MS = 5000;
+
+// Tracks the frps binaries at the configured paths: files as they are, and
+// every executable file in a directory. Versions come from `frps --version`
+// and are detected again only when a file changes. Instances run copies
+// kept in the pin directory, so they keep their version when the installer
+// replaces /usr/local/bin/frps.
+export class BinaryRegistry {
+  private readonly sources: string[];
+  private readonly pinDir: string;
+  private binaries = new Map<string, FrpsBinary>();
+  private scanning: Promise<void> | null = null;
+
+  constructor(sources: string[], pinDir: string) {
+    this.pinDir = path.resolve(pinDir);
+    this.sources = sources.some((s) => path.resolve(s) === this.pinDir)
+      ? sources
+      : [...sources, this.pinDir];
+  }
+
+  // Newest version first, binaries without a version last
+  list(): FrpsBinary[] {
+    return [...this.binaries.values()].sort((a, b) =>
+      a.version === null || b.version === null
+        ? Number(a.version === null) - Number(b.version === null)
+        : compareVersions(b.version, a.version)
+    );
+  }
+
+  // Used when an instance names neither a version nor a binary
+  latest(): FrpsBinary | undefined {
+    return this.list().find((b) => b.version !== null);
+  }
+
+  byPath(binaryPath: string): FrpsBinary | undefined {
+    return this.binaries.get(path.resolve(binaryPath));
+  }
+
+  async scan(): Promise<void> {
+    this.scanning ??= this.rescan().finally(() => {
+      this.scanning = null;
+    });
+    return this.scanning;
+  }
+
+  // The binary for a new instance or a version change: the pinned copy of
+  // the one with the requested version, the registered binaryPath, or the
+  // latest version
+  async resolve(input: {
+    frpsVersion?: string;
+    binaryPath?: string;
+  }): Promise<FrpsBinary> {
+    await this.scan();
+    let binary: FrpsBinary | undefined;
+    if (input.frpsVersion !== undefined) {
+      const version = input.frpsVersion.replace(/^v/, "");
+      binary = this.list().find((b) => b.version === version);
+      if (!binary)
+        throw new HttpError(
+          400,
+          `no registered frps binary has version ${version}; see GET /binaries`
+        );
+      if (
+        input.binaryPath !== undefined &&
+        this.byPath(input.binaryPath) !== binary
+      )
+        throw new HttpError(
+          400,
+          `binaryPath ${input.binaryPath} is not the binary of version ${version}`
+        );
+    } else if (input.binaryPath !== undefined) {
+      binary = this.byPath(input.binaryPath);
+      if (!binary)
+        throw new HttpError(
+          400,
+          `binaryPath ${input.binaryPath} is not a registered frps binary; see GET /binaries`
+        );
+    } else {
+      binary = this.latest();
+      if (!binary)
+        throw new HttpError(
+          400,
+          "no frps binary registered; see GET /binaries"
+        );
+    }
+    if (binary.version === null)
+      throw new HttpError(
+        400,
+        `frps binary ${binary.path} did not report a version: ${binary.error}`
+      );
+    return this.pin(binary);
+  }
+
+  // Copy a binary to <pinDir>/frps-<version>, unless that copy exists
+  async pin(binary: FrpsBinary): Promise<FrpsBinary> {
+    const target = path.join(this.pinDir, `frps-${binary.version}`);
+    if (binary.path === target) return binary;
+    const existing = this.binaries.get(target);
+    if (existing && existing.version === binary.version) return existing;
+
+    await mkdir(this.pinDir, { recursive: true });
+    // Not executable until renamed, so a concurrent scan skips it
+    const tmp = `${target}.${crypto.randomUUID()}.tmp`;
+    await copyFile(binary.path, tmp);
+    const detected = await detectFrpsVersion(tmp);
+    if (detected.version !== binary.version) {
+      await rm(tmp, { force: true });
+      throw new HttpError(
+        409,
+        `frps binary ${binary.path} changed while being copied; try again`
+      );
+    }
+    await chmod(tmp, 0o755);
+    await rename(tmp, target);
+    const info = await stat(target);
+    const pinned: FrpsBinary = {
+      path: target,
+      ...detected,
+      size: info.size,
+      modifiedAt: info.mtimeMs,
+    };
+    this.binaries.set(target, pinned);
+    return pinned;
+  }
+
+  private async rescan() {
+    const found = new Map<string, FrpsBinary>();
+    for (const source of this.sources) {
+      const info = await stat(source).catch(() => null);
+      if (!info) continue;
+      const files = info.isDirectory()
+        ? (await readdir(source).catch(() => [])).map((f) =>
+            path.join(source, f)
+          )
+        : [source];
+      for (const file of files) {
+        const resolved = path.resolve(file);
+        const fileInfo = await stat(resolved).catch(() => null);
+        if (!fileInfo?.isFile() || !(fileInfo.mode & 0o111)) continue;
+        if (found.has(resolved)) continue;
+        const prev = this.binaries.get(resolved);
+        if (
+          prev &&
+          prev.size === fileInfo.size &&
+          prev.modifiedAt === fileInfo.mtimeMs
+        ) {
+          found.set(resolved, prev);
+          continue;
+        }
+        found.set(resolved, {
+          path: resolved,
+          ...(await detectFrpsVersion(resolved)),
+          size: fileInfo.size,
+          modifiedAt: fileInfo.mtimeMs,
+        });
+      }
+    }
+    this.binaries = found;
+  }
+}
+
+async function detectFrpsVersion(
+  binaryPath: string
+): Promise<{ version: string | null; error: string | null }> {
+  try {
+    const child = Bun.spawn([binaryPath, "--version"], {
+      stdout: "pipe",
+      stderr: "ignore",
+    });
+    const timer = setTimeout(
+      () => child.kill("SIGKILL"),
+      BINARY_VERSION_TIMEOUT_MS
+    );
+    const [output] = await Promise.all([
+      new Response(child.stdout).text(),
+      child.exited,
+    ]);
+    clearTimeout(timer);
+    const match = output.match(/\bv?(\d+\.\d+\.\d+[\w.+-]*)/);
+    if (match) return { version: match[1]!, error: null };
+    return {
+      version: null,
+      error:
+        child.signalCode === "SIGKILL"
+          ? `--version did not exit within ${BINARY_VERSION_TIMEOUT_MS}ms`
+          : "no version in --version output",
+    };
+  } catch (e) {
+    return { version: null, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+// Numeric comparison of dotted versions, e.g. 0.9.0 < 0.10.0
+function compareVersions(a: string, b: string): number {
+  const pa = a.split(/[^\d]+/).map(Number);
+  const pb = b.split(/[^\d]+/).map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
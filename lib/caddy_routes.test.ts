@@ -0,0 +1,256 @@
+import { describe, expect, test } from "bun:test";
+import {
+  findHostConflicts,
+  hostsOverlap,
+  pathsOverlap,
+  planProxySync,
+  takeOverHosts,
+  type ProxySpec,
+  type SyncProxyBody,
+} from "./caddy_routes.ts";
+import { HttpError } from "./http.ts";
+
+const route = (id: string, hosts: string[], paths?: string[]) => ({
+  "@id": id,
+  match: [{ host: hosts, ...(paths ? { path: paths } : {}) }],
+  handle: [{ handler: "reverse_proxy", upstreams: [{ dial: "a:80" }] }],
+});
+
+describe("hostsOverlap", () => {
+  test.each([
+    ["a.example.com", "a.example.com", true],
+    ["A.Example.com", "a.example.COM", true],
+    ["*.example.com", "a.example.com", true],
+    ["a.example.com", "*.example.com", true],
+    ["*.example.com", "*.example.com", true],
+    ["*.example.com", "example.com", false],
+    ["*.example.com", "a.b.example.com", false],
+    ["a.example.com", "b.example.com", false],
+  ])("%s and %s: %p", (a, b, expected) => {
+    expect(hostsOverlap(a, b)).toBe(expected);
+    expect(hostsOverlap(b, a)).toBe(expected);
+  });
+});
+
+describe("pathsOverlap", () => {
+  test.each([
+    [undefined, ["/api/*"], true],
+    [[], ["/api/*"], true],
+    [["/api/*"], ["/api/x"], true],
+    [["/api/*"], ["/API/users"], true],
+    [["/*"], ["/foo"], true],
+    [["/api/*"], ["/api"], false],
+    [["/api/*"], ["/web/*"], false],
+    [["/a"], ["/b"], false],
+    [["*.png"], ["/img/*"], true],
+    [["/a", "/b"], ["/c", "/b"], true],
+  ])("%p and %p: %p", (a, b, expected) => {
+    expect(pathsOverlap(a, b)).toBe(expected);
+    expect(pathsOverlap(b, a)).toBe(expected);
+  });
+});
+
+describe("findHostConflicts", () => {
+  const servers = {
+    srv0: {
+      routes: [
+        route("rp-a", ["a.example.com", "b.example.com"]),
+        route("rp-api", ["c.example.com"], ["/api/*"]),
+        { match: [{ host: ["*.example.com"] }] },
+        { handle: [{ handler: "file_server" }] },
+      ],
+    },
+    srv1: { routes: [route("rp-other", ["a.example.com"])] },
+  };
+
+  test("lists every route that routes one of the hosts", () => {
+    const conflicts = findHostConflicts(
+      servers,
+      ["a.example.com"],
+      undefined,
+      "rp-new"
+    );
+    expect(conflicts).toEqual([
+      {
+        id: "rp-a",
+        server: "srv0",
+        index: 0,
+        host: "a.example.com",
+        claimed: "a.example.com",
+        movable: true,
+      },
+      {
+        id: null,
+        server: "srv0",
+        index: 2,
+        host: "*.example.com",
+        claimed: "a.example.com",
+        movable: false,
+      },
+      {
+        id: "rp-other",
+        server: "srv1",
+        index: 0,
+        host: "a.example.com",
+        claimed: "a.example.com",
+        movable: true,
+      },
+    ]);
+  });
+
+  test("ignores the route being written", () => {
+    const conflicts = findHostConflicts(
+      { srv0: { routes: [route("rp-a", ["a.example.com"])] } },
+      ["a.example.com"],
+      undefined,
+      "rp-a"
+    );
+    expect(conflicts).toEqual([]);
+  });
+
+  test("routes on distinct paths do not conflict", () => {
+    const conflicts = findHostConflicts(
+      { srv0: { routes: [route("rp-api", ["c.example.com"], ["/api/*"])] } },
+      ["c.example.com"],
+      ["/web/*"],
+      "rp-web"
+    );
+    expect(conflicts).toEqual([]);
+  });
+});
+
+describe("takeOverHosts", () => {
+  const servers = () => ({
+    srv0: {
+      routes: [
+        route("rp-a", ["a.example.com", "b.example.com"]),
+        route("rp-b", ["c.example.com"]),
+        route("rp-c", ["d.example.com"]),
+      ],
+    },
+  });
+
+  test("rejects conflicts unless the filter allows them", () => {
+    const current = servers();
+    const conflicts = findHostConflicts(
+      current,
+      ["a.example.com"],
+      undefined,
+      "rp-new"
+    );
+    expect(() => takeOverHosts(current, conflicts)).toThrow(
+      "host a.example.com is already routed by route rp-a in server 'srv0'"
+    );
+    expect(() => takeOverHosts(current, conflicts, () => false)).toThrow(
+      HttpError
+    );
+  });
+
+  test("rejects hosts the new route does not fully cover", () => {
+    const current = {
+      srv0: { routes: [route("rp-wild", ["*.example.com"])] },
+    };
+    const conflicts = findHostConflicts(
+      current,
+      ["a.example.com"],
+      undefined,
+      "rp-new"
+    );
+    expect(() => takeOverHosts(current, conflicts, () => true)).toThrow(
+      "only hosts the new route fully covers can be taken over"
+    );
+  });
+
+  test("removes the hosts and deletes routes left without any", () => {
+    const current = servers();
+    const conflicts = findHostConflicts(
+      current,
+      ["a.example.com", "c.example.com"],
+      undefined,
+      "rp-new"
+    );
+    const { servers: next, takenOver } = takeOverHosts(
+      current,
+      conflicts,
+      () => true
+    );
+    expect(next.srv0.routes.map((r: any) => [r["@id"], r.match])).toEqual([
+      ["rp-a", [{ host: ["b.example.com"] }]],
+      ["rp-c", [{ host: ["d.example.com"] }]],
+    ]);
+    expect(takenOver.updated.map((u) => u.route["@id"])).toEqual(["rp-a"]);
+    // Removed routes are reported as they were
+    expect(takenOver.removed).toEqual([
+      { server: "srv0", route: route("rp-b", ["c.example.com"]) },
+    ]);
+    // The input is left alone
+    expect(current).toEqual(servers());
+  });
+});
+
+describe("planProxySync", () => {
+  const spec = (hosts: string[], upstreams = ["a:80"]): ProxySpec => ({
+    hosts,
+    upstreams,
+    terminal: true,
+  });
+  const input = (routes: SyncProxyBody["routes"]): SyncProxyBody => ({
+    server: "srv0",
+    prefix: "rp-app-",
+    routes,
+  });
+
+  test("plans additions, changes and removals under the prefix", () => {
+    const proxies = [
+      { id: "rp-app-same", server: "srv0", ...spec(["a.example.com"]) },
+      { id: "rp-app-moved", server: "srv0", ...spec(["b.example.com"]) },
+      { id: "rp-app-gone", server: "srv0", ...spec(["c.example.com"]) },
+      { id: "rp-other", server: "srv0", ...spec(["d.example.com"]) },
+      { server: "srv0", ...spec(["e.example.com"]) },
+    ];
+    const plan = planProxySync(
+      input([
+        { id: "rp-app-same", ...spec(["a.example.com"]) },
+        { id: "rp-app-moved", ...spec(["b.example.com"], ["b:80"]) },
+        { id: "rp-app-new", ...spec(["f.example.com"]) },
+      ]),
+      proxies
+    );
+    expect(plan).toEqual([
+      { id: "rp-app-same", action: "unchanged" },
+      { id: "rp-app-moved", action: "change", changes: ["upstreams"] },
+      { id: "rp-app-new", action: "add" },
+      { id: "rp-app-gone", action: "remove" },
+    ]);
+  });
+
+  test("treats absent options like unset ones", () => {
+    const plan = planProxySync(
+      input([{ id: "rp-app-a", ...spec(["a.example.com"]) }]),
+      [
+        {
+          id: "rp-app-a",
+          server: "srv0",
+          ...spec(["a.example.com"]),
+          paths: undefined,
+        },
+      ]
+    );
+    expect(plan).toEqual([{ id: "rp-app-a", action: "unchanged" }]);
+  });
+
+  test("leaves managed routes of other servers alone", () => {
+    const plan = planProxySync(input([]), [
+      { id: "rp-app-a", server: "srv1", ...spec(["a.example.com"]) },
+    ]);
+    expect(plan).toEqual([]);
+  });
+
+  test("refuses to move a route between servers", () => {
+    expect(() =>
+      planProxySync(input([{ id: "rp-app-a", ...spec(["a.example.com"]) }]), [
+        { id: "rp-app-a", server: "srv1", ...spec(["a.example.com"]) },
+      ])
+    ).toThrow("route rp-app-a exists in server 'srv1'");
+  });
+});
@@ -0,0 +1,329 @@
+import { HttpError } from "./http.ts";
+
+export const LB_POLICIES = [
+  "random",
+  "round_robin",
+  "least_conn",
+  "first",
+  "ip_hash",
+  "client_ip_hash",
+  "uri_hash",
+] as const;
+
+export type LoadBalancing = {
+  policy?: (typeof LB_POLICIES)[number];
+  retries?: number;
+  tryDuration?: string;
+  tryInterval?: string;
+};
+
+export type HealthChecks = {
+  active?: {
+    uri?: string;
+    port?: number;
+    interval?: string;
+    timeout?: string;
+    expectStatus?: number;
+  };
+  passive?: {
+    failDuration?: string;
+    maxFails?: number;
+    unhealthyStatus?: number[];
+    unhealthyLatency?: string;
+  };
+};
+
+export type ProxyTransport = {
+  // Present (even empty) to connect to the upstreams over TLS
+  tls?: {
+    serverName?: string;
+    insecureSkipVerify?: boolean;
+    caFiles?: string[];
+  };
+  versions?: string[];
+};
+
+export type ProxyTimeouts = {
+  dial?: string;
+  read?: string;
+  write?: string;
+  responseHeader?: string;
+};
+
+export type HeaderOps = {
+  set?: Record<string, string[]>;
+  add?: Record<string, string[]>;
+  delete?: string[];
+};
+
+export type ProxyHeaders = { request?: HeaderOps; response?: HeaderOps };
+
+// Optional settings of a reverse proxy route, in the shape the API takes
+// and returns. They map onto the route's matchers and reverse_proxy handler.
+export type ProxyOptions = {
+  paths?: string[];
+  loadBalancing?: LoadBalancing;
+  healthChecks?: HealthChecks;
+  transport?: ProxyTransport;
+  timeouts?: ProxyTimeouts;
+  headers?: ProxyHeaders;
+};
+
+export const PROXY_OPTION_KEYS = [
+  "paths",
+  "loadBalancing",
+  "healthChecks",
+  "transport",
+  "timeouts",
+  "headers",
+] as const;
+
+export type ProxySpec = ProxyOptions & {
+  hosts: string[];
+  upstreams: string[];
+  terminal: boolean;
+};
+
+export type SyncProxyBody = {
+  server: string;
+  prefix: string;
+  routes: Array<ProxySpec & { id: string }>;
+};
+
+export type SyncAction = "add" | "change" | "remove" | "unchanged";
+
+export type SyncPlanEntry = {
+  id: string;
+  action: SyncAction;
+  // Fields that differ, for "change"
+  changes?: string[];
+};
+
+// Fields of two specs that differ. Absent and undefined are the same.
+function diffProxySpecs(a: ProxySpec, b: ProxySpec): string[] {
+  const fields = ["hosts", "upstreams", "terminal", ...PROXY_OPTION_KEYS];
+  return fields.filter(
+    (f) =>
+      canonicalJson((a as any)[f] ?? null) !==
+      canonicalJson((b as any)[f] ?? null)
+  );
+}
+
+// JSON with sorted keys and without undefined values
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.keys(v)
+            .sort()
+            .filter((k) => v[k] !== undefined)
+            .map((k) => [k, v[k]])
+        )
+      : v
+  );
+}
+
+// Diff the desired routes of a server against the proxies it has under the
+// managed prefix. Routes outside the prefix are never touched.
+export function planProxySync(
+  input: SyncProxyBody,
+  proxies: Array<ProxySpec & { id?: string; server: string }>
+): SyncPlanEntry[] {
+  const existing = new Map(
+    proxies
+      .filter((p) => p.id !== undefined && p.id.startsWith(input.prefix))
+      .map((p) => [p.id!, p])
+  );
+  const plan: SyncPlanEntry[] = [];
+  for (const desired of input.routes) {
+    const current = existing.get(desired.id);
+    if (!current) {
+      plan.push({ id: desired.id, action: "add" });
+      continue;
+    }
+    if (current.server !== input.server)
+      throw new HttpError(
+        409,
+        `route ${desired.id} exists in server '${current.server}'`
+      );
+    const changes = diffProxySpecs(current, desired);
+    plan.push(
+      changes.length > 0
+        ? { id: desired.id, action: "change", changes }
+        : { id: desired.id, action: "unchanged" }
+    );
+  }
+  const wanted = new Set(input.routes.map((r) => r.id));
+  for (const [id, current] of existing) {
+    if (current.server === input.server && !wanted.has(id))
+      plan.push({ id, action: "remove" });
+  }
+  return plan;
+}
+
+export type HostConflict = {
+  id: string | null;
+  server: string;
+  index: number;
+  // Host of the other route, and the host of ours it overlaps
+  host: string;
+  claimed: string;
+  // The claimed host matches every name `host` does, so it can be moved
+  movable: boolean;
+};
+
+// Decides which conflicts a write may take over
+export type TakeoverFilter = (conflict: HostConflict) => boolean;
+
+// Other routes a takeover changed: left with fewer hosts, or removed when
+// none were left. Removed routes are as they were before.
+export type TakenOver = {
+  updated: Array<{ server: string; route: any }>;
+  removed: Array<{ server: string; route: any }>;
+};
+
+// Caddy host patterns: `*` stands for exactly one label
+export function hostsOverlap(a: string, b: string): boolean {
+  const x = a.toLowerCase().split(".");
+  const y = b.toLowerCase().split(".");
+  return (
+    x.length === y.length &&
+    x.every((l, i) => l === "*" || y[i] === "*" || l === y[i])
+  );
+}
+
+function hostCovers(pattern: string, host: string): boolean {
+  const x = pattern.toLowerCase().split(".");
+  const y = host.toLowerCase().split(".");
+  return x.length === y.length && x.every((l, i) => l === "*" || l === y[i]);
+}
+
+// Routes split by distinct paths on one host are fine; a route without
+// paths takes every path
+export function pathsOverlap(a?: string[], b?: string[]): boolean {
+  if (!a?.length || !b?.length) return true;
+  return a.some((p) => b.some((q) => pathPatternsOverlap(p, q)));
+}
+
+// Whether some path matches both Caddy path patterns, which match without
+// regard to case. `*` is taken to match any run of characters, so `/api/*`
+// overlaps `/api/x` and `/*` overlaps every path. Caddy stops a wildcard in
+// the middle of a pattern at `/`, so such patterns may be reported as
+// overlapping when they are not, never the other way round.
+function pathPatternsOverlap(a: string, b: string): boolean {
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+  const known = new Map<number, boolean>();
+  // Whether x from i and y from j can match the same string
+  const rest = (i: number, j: number): boolean => {
+    if (i === x.length && j === y.length) return true;
+    const key = i * (y.length + 1) + j;
+    const cached = known.get(key);
+    if (cached !== undefined) return cached;
+    let result: boolean;
+    if (x[i] === "*")
+      result = rest(i + 1, j) || (j < y.length && rest(i, j + 1));
+    else if (y[j] === "*")
+      result = rest(i, j + 1) || (i < x.length && rest(i + 1, j));
+    else
+      result =
+        i < x.length && j < y.length && x[i] === y[j] && rest(i + 1, j + 1);
+    known.set(key, result);
+    return result;
+  };
+  return rest(0, 0);
+}
+
+// Routes on any server that already match one of the hosts. Routes without
+// a host matcher are catch-alls and never conflict.
+export function findHostConflicts(
+  servers: Record<string, any>,
+  hosts: string[],
+  paths: string[] | undefined,
+  exceptId: string
+): HostConflict[] {
+  const conflicts: HostConflict[] = [];
+  for (const [server, cfg] of Object.entries(servers)) {
+    const routes: any[] = Array.isArray(cfg?.routes) ? cfg.routes : [];
+    routes.forEach((route, index) => {
+      const id: string | null = route?.["@id"] ?? null;
+      if (id === exceptId) return;
+      const sets: any[] = Array.isArray(route?.match) ? route.match : [];
+      const theirPaths = sets.flatMap((m) =>
+        Array.isArray(m?.path) ? m.path : []
+      );
+      if (!pathsOverlap(paths, theirPaths)) return;
+      const theirHosts: string[] = sets.flatMap((m) =>
+        Array.isArray(m?.host) ? m.host : []
+      );
+      for (const host of theirHosts) {
+        const claimed = hosts.find((h) => hostsOverlap(h, host));
+        if (claimed === undefined) continue;
+        const movable = hostCovers(claimed, host);
+        conflicts.push({ id, server, index, host, claimed, movable });
+      }
+    });
+  }
+  return conflicts;
+}
+
+function describeConflict(c: HostConflict): string {
+  const route = c.id ? `route ${c.id}` : `route #${c.index}`;
+  return c.host.toLowerCase() === c.claimed.toLowerCase()
+    ? `host ${c.host} is already routed by ${route} in server '${c.server}'`
+    : `host ${c.claimed} overlaps ${c.host} of ${route} in server '${c.server}'`;
+}
+
+// Copy of the servers with the conflicting hosts removed from the routes
+// that had them. A route left without hosts is deleted, since an empty host
+// matcher would match everything.
+export function takeOverHosts(
+  servers: Record<string, any>,
+  conflicts: HostConflict[],
+  takeover?: TakeoverFilter
+): { servers: Record<string, any>; takenOver: TakenOver } {
+  for (const c of conflicts) {
+    if (!takeover || !takeover(c))
+      throw new HttpError(409, describeConflict(c));
+    if (!c.movable)
+      throw new HttpError(
+        409,
+        `${describeConflict(
+          c
+        )}; only hosts the new route fully covers can be taken over`
+      );
+  }
+  const next = structuredClone(servers);
+  const byRoute = new Map<string, HostConflict[]>();
+  for (const c of conflicts) {
+    const key = `${c.server}\u0000${c.index}`;
+    byRoute.set(key, [...(byRoute.get(key) ?? []), c]);
+  }
+  const emptied: Array<{ server: string; index: number }> = [];
+  const takenOver: TakenOver = { updated: [], removed: [] };
+  for (const group of byRoute.values()) {
+    const { server, index } = group[0]!;
+    const route = next[server].routes[index];
+    const moved = new Set(group.map((c) => c.host));
+    route.match = (route.match as any[])
+      .map((m) =>
+        Array.isArray(m?.host)
+          ? { ...m, host: m.host.filter((h: string) => !moved.has(h)) }
+          : m
+      )
+      .filter((m) => !Array.isArray(m?.host) || m.host.length > 0);
+    const hostsLeft = route.match.some(
+      (m: any) => Array.isArray(m?.host) && m.host.length > 0
+    );
+    if (hostsLeft) {
+      takenOver.updated.push({ server, route });
+    } else {
+      emptied.push({ server, index });
+      takenOver.removed.push({ server, route: servers[server].routes[index] });
+    }
+  }
+  emptied
+    .sort((a, b) => b.index - a.index)
+    .forEach(({ server, index }) => next[server].routes.splice(index, 1));
+  return { servers: next, takenOver };
+}
@@ -0,0 +1,56 @@
+import { rename, writeFile } from "node:fs/promises";
+
+export class HttpError extends Error {
+  status: number;
+  details?: Record<string, unknown>;
+  constructor(
+    status: number,
+    message: string,
+    details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export type FieldError = { path: string; message: string };
+
+export function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { "content-type": "application/json" },
+    ...init,
+  });
+}
+
+export function textResponse(body: string, init: ResponseInit = {}): Response {
+  return new Response(body, {
+    headers: { "content-type": "text/plain" },
+    ...init,
+  });
+}
+
+export function readJson(req: Request): Promise<any> {
+  return req.json().catch(() => {
+    throw new HttpError(400, "invalid JSON body");
+  });
+}
+
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+export async function writeFileAtomic(
+  file: string,
+  data: string,
+  mode = 0o644
+) {
+  const tmp = `${file}.${crypto.randomUUID()}.tmp`;
+  await writeFile(tmp, data, { encoding: "utf8", mode });
+  await rename(tmp, file);
+}
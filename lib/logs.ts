@@ -0,0 +1,285 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import {
+  closeSync,
+  existsSync,
+  fstatSync,
+  mkdirSync,
+  openSync,
+  readSync,
+  renameSync,
+  unlinkSync,
+  writeSync,
+} from "node:fs";
+import path from "node:path";
+import { RingBuffer } from "./ring_buffer.ts";
+
+export type LogStream = "stdout" | "stderr" | "manager";
+
+export const LOG_STREAMS: LogStream[] = ["stdout", "stderr", "manager"];
+
+export type LogEntry = {
+  seq: number;
+  ts: number;
+  stream: LogStream;
+  line: string;
+};
+
+export type LogListener = {
+  onLine: (entry: LogEntry) => void;
+  onEnd: (reason: string) => void;
+};
+
+export type LogQuery = {
+  since?: number;
+  until?: number;
+  stream?: LogStream;
+  grep?: RegExp;
+  limit?: number;
+};
+
+export type LogFileOptions = {
+  // Size at which the current file is rotated
+  maxBytes: number;
+  // Number of rotated files kept next to the current one
+  maxFiles: number;
+};
+
+export const DEFAULT_LOG_FILE_OPTIONS: LogFileOptions = {
+  maxBytes: 5 * 1024 * 1024,
+  maxFiles: 5,
+};
+
+export const LOG_DIR = "logs";
+const LOG_FILE = "frps.log";
+
+// Log lines of one instance. Every line gets a sequence number that only
+// grows, so followers can resume after a reconnect without gaps or repeats.
+export class LogBuffer {
+  private readonly ring: RingBuffer<LogEntry>;
+  private readonly listeners = new Set<LogListener>();
+  private readonly file: LogFile;
+  private seq: number;
+  // Lines pushed per stream since the manager started
+  readonly lineCounts: Record<LogStream, number> = {
+    stdout: 0,
+    stderr: 0,
+    manager: 0,
+  };
+
+  constructor(capacity: number, file: LogFile) {
+    this.ring = new RingBuffer<LogEntry>(capacity);
+    this.file = file;
+    // Continue the sequence of a previous manager run
+    this.seq = file.lastSeq();
+  }
+
+  push(stream: LogStream, text: string) {
+    const entry: LogEntry = {
+      seq: ++this.seq,
+      ts: Date.now(),
+      stream,
+      line: `[${stream}] ${text}`,
+    };
+    this.ring.push(entry);
+    this.file.write(entry);
+    this.lineCounts[stream]++;
+    for (const listener of this.listeners) listener.onLine(entry);
+  }
+
+  toArray(limit?: number): string[] {
+    return this.ring.toArray(limit).map((e) => e.line);
+  }
+
+  entries(options?: { afterSeq?: number; limit?: number }): LogEntry[] {
+    const { afterSeq, limit } = options ?? {};
+    const data =
+      afterSeq !== undefined
+        ? this.ring.toArray().filter((e) => e.seq > afterSeq)
+        : this.ring.toArray();
+    if (typeof limit === "number" && limit > 0) {
+      return data.slice(Math.max(0, data.length - limit));
+    }
+    return data;
+  }
+
+  subscribe(listener: LogListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Tell every follower that no more lines are coming
+  end(reason: string) {
+    const listeners = [...this.listeners];
+    this.listeners.clear();
+    for (const listener of listeners) listener.onEnd(reason);
+  }
+
+  close() {
+    this.file.close();
+  }
+}
+
+// Append-only JSONL log under <workDir>/logs, rotated by size into
+// frps.log.1 (newest) .. frps.log.<maxFiles> (oldest). Writes are
+// synchronous so lines land on disk in the order they were pushed.
+export class LogFile {
+  private readonly dir: string;
+  private readonly options: LogFileOptions;
+  private fd: number | null = null;
+  private size = 0;
+  private failed = false;
+
+  constructor(dir: string, options: LogFileOptions) {
+    this.dir = dir;
+    this.options = options;
+  }
+
+  write(entry: LogEntry) {
+    const data = JSON.stringify(entry) + "\n";
+    const bytes = Buffer.byteLength(data);
+    try {
+      if (this.fd === null) this.open();
+      if (this.size > 0 && this.size + bytes > this.options.maxBytes)
+        this.rotate();
+      writeSync(this.fd!, data);
+      this.size += bytes;
+      this.failed = false;
+    } catch (e) {
+      // Report once per failure streak instead of once per line
+      if (!this.failed) console.error(`Failed to write log ${this.dir}:`, e);
+      this.failed = true;
+    }
+  }
+
+  close() {
+    if (this.fd === null) return;
+    try {
+      closeSync(this.fd);
+    } catch {}
+    this.fd = null;
+  }
+
+  // Sequence number of the last entry written, 0 if there is none
+  lastSeq(): number {
+    for (const name of [LOG_FILE, `${LOG_FILE}.1`]) {
+      const tail = readTail(path.join(this.dir, name), 64 * 1024);
+      const lines = tail.split("\n").filter(Boolean).reverse();
+      for (const line of lines) {
+        try {
+          const seq = JSON.parse(line).seq;
+          if (typeof seq === "number") return seq;
+        } catch {}
+      }
+    }
+    return 0;
+  }
+
+  private open() {
+    mkdirSync(this.dir, { recursive: true });
+    this.fd = openSync(path.join(this.dir, LOG_FILE), "a");
+    this.size = fstatSync(this.fd).size;
+  }
+
+  private rotate() {
+    this.close();
+    const current = path.join(this.dir, LOG_FILE);
+    const { maxFiles } = this.options;
+    if (maxFiles > 0) {
+      for (let i = maxFiles - 1; i >= 1; i--) {
+        const from = `${current}.${i}`;
+        if (existsSync(from)) renameSync(from, `${current}.${i + 1}`);
+      }
+      renameSync(current, `${current}.1`);
+    } else {
+      unlinkSync(current);
+    }
+    this.open();
+  }
+}
+
+export async function streamLines(
+  stream: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void
+) {
+  const decoder = new TextDecoder();
+  let buf = "";
+  for await (const chunk of stream) {
+    buf += decoder.decode(chunk, { stream: true });
+    let idx: number;
+    while ((idx = buf.indexOf("\n")) !== -1) {
+      const line = buf.slice(0, idx).replace(/\r$/, "");
+      onLine(line);
+      buf = buf.slice(idx + 1);
+    }
+  }
+  if (buf) onLine(buf);
+}
+
+function readTail(file: string, maxBytes: number): string {
+  let fd: number;
+  try {
+    fd = openSync(file, "r");
+  } catch {
+    return "";
+  }
+  try {
+    const size = fstatSync(fd).size;
+    const length = Math.min(size, maxBytes);
+    const buf = Buffer.alloc(length);
+    readSync(fd, buf, 0, length, size - length);
+    return buf.toString("utf8");
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// Read entries from the current and rotated log files, oldest first
+export async function readLogFiles(
+  dir: string,
+  query: LogQuery
+): Promise<LogEntry[]> {
+  const names = await readdir(dir).catch(() => [] as string[]);
+  const rotation = (name: string): number => {
+    if (name === LOG_FILE) return 0;
+    const suffix = name.slice(LOG_FILE.length + 1);
+    return name.startsWith(`${LOG_FILE}.`) && /^\d+$/.test(suffix)
+      ? Number(suffix)
+      : -1;
+  };
+  const files = names
+    .filter((n) => rotation(n) >= 0)
+    .sort((a, b) => rotation(b) - rotation(a));
+
+  const out: LogEntry[] = [];
+  for (const name of files) {
+    const file = path.join(dir, name);
+    // A file last written before `since` cannot contain matching entries
+    if (query.since !== undefined) {
+      const info = await stat(file).catch(() => null);
+      if (!info || info.mtimeMs < query.since) continue;
+    }
+    const text = await readFile(file, "utf8").catch(() => "");
+    for (const line of text.split("\n")) {
+      if (!line) continue;
+      let entry: LogEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (matchesLogQuery(entry, query)) out.push(entry);
+    }
+  }
+  if (typeof query.limit === "number" && query.limit > 0) {
+    return out.slice(Math.max(0, out.length - query.limit));
+  }
+  return out;
+}
+
+export function matchesLogQuery(entry: LogEntry, query: LogQuery): boolean {
+  if (query.since !== undefined && entry.ts < query.since) return false;
+  if (query.until !== undefined && entry.ts > query.until) return false;
+  if (query.stream && entry.stream !== query.stream) return false;
+  if (query.grep && !query.grep.test(entry.line)) return false;
+  return true;
+}
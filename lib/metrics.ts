@@ -0,0 +1,102 @@
+export type MetricLabels = Record<string, string>;
+
+type HistogramSeries = {
+  labels: MetricLabels;
+  counts: number[];
+  sum: number;
+  count: number;
+};
+
+// Counters and histograms fed by events, in Prometheus text format.
+// Gauges are read from the manager's state at scrape time instead.
+export class Metrics {
+  private readonly counters = new Map<
+    string,
+    { help: string; series: Map<string, [MetricLabels, number]> }
+  >();
+  private readonly histograms = new Map<
+    string,
+    { help: string; buckets: number[]; series: Map<string, HistogramSeries> }
+  >();
+
+  defineCounter(name: string, help: string) {
+    this.counters.set(name, { help, series: new Map() });
+  }
+
+  defineHistogram(name: string, help: string, buckets: number[]) {
+    this.histograms.set(name, { help, buckets, series: new Map() });
+  }
+
+  inc(name: string, labels: MetricLabels, by = 1) {
+    const counter = this.counters.get(name);
+    if (!counter) return;
+    const key = JSON.stringify(labels);
+    const prev = counter.series.get(key)?.[1] ?? 0;
+    counter.series.set(key, [labels, prev + by]);
+  }
+
+  observe(name: string, labels: MetricLabels, value: number) {
+    const histogram = this.histograms.get(name);
+    if (!histogram) return;
+    const key = JSON.stringify(labels);
+    let series = histogram.series.get(key);
+    if (!series) {
+      const counts = histogram.buckets.map(() => 0);
+      series = { labels, counts, sum: 0, count: 0 };
+      histogram.series.set(key, series);
+    }
+    for (let i = 0; i < histogram.buckets.length; i++) {
+      if (value <= histogram.buckets[i]!) series.counts[i]!++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  render(lines: string[]) {
+    for (const [name, { help, series }] of this.counters) {
+      writeMetric(lines, name, help, "counter", [...series.values()]);
+    }
+    for (const [name, { help, buckets, series }] of this.histograms) {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} histogram`);
+      for (const { labels, counts, sum, count } of series.values()) {
+        buckets.forEach((le, i) => {
+          const bucket = formatLabels({ ...labels, le: String(le) });
+          lines.push(`${name}_bucket${bucket} ${counts[i]}`);
+        });
+        const inf = formatLabels({ ...labels, le: "+Inf" });
+        lines.push(
+          `${name}_bucket${inf} ${count}`,
+          `${name}_sum${formatLabels(labels)} ${sum}`,
+          `${name}_count${formatLabels(labels)} ${count}`
+        );
+      }
+    }
+  }
+}
+
+export function writeMetric(
+  lines: string[],
+  name: string,
+  help: string,
+  type: "counter" | "gauge",
+  samples: Array<[MetricLabels, number]>
+) {
+  lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  for (const [labels, value] of samples) {
+    lines.push(`${name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([k, v]) => `${k}="${escapeLabelValue(v)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+export function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
@@ -0,0 +1,159 @@
+import { describe, expect, test } from "bun:test";
+import { HttpError } from "./http.ts";
+import { PortAllocator } from "./ports.ts";
+
+// Pools high enough to be free on the test host, since single listener ports
+// are probed
+const pool = (start: number, size: number) => ({
+  start,
+  end: start + size - 1,
+});
+
+async function conflict(run: Promise<unknown>): Promise<HttpError> {
+  const error = await run.then(
+    () => null,
+    (e: unknown) => e
+  );
+  if (!(error instanceof HttpError)) throw new Error("expected an HttpError");
+  expect(error.status).toBe(409);
+  return error;
+}
+
+describe("PortAllocator", () => {
+  test("assigns auto ports from the bottom of the pool", async () => {
+    const ports = new PortAllocator(pool(46100, 10));
+    const config = await ports.claim("a", {
+      bindPort: "auto",
+      vhostHTTPPort: "auto",
+      webServer: { port: "auto" },
+    });
+    expect(config).toEqual({
+      bindPort: 46100,
+      vhostHTTPPort: 46101,
+      webServer: { port: 46102 },
+    });
+  });
+
+  test("skips ports other instances hold", async () => {
+    const ports = new PortAllocator(pool(46110, 10));
+    await ports.claim("a", { bindPort: "auto" });
+    ports.restore("b", { bindPort: 46111 });
+    const config = await ports.claim("c", { bindPort: "auto" });
+    expect(config.bindPort).toBe(46112);
+    expect(ports.holdings().map((h) => [h.id, h.start])).toEqual([
+      ["a", 46110],
+      ["b", 46111],
+      ["c", 46112],
+    ]);
+  });
+
+  test("rejects an explicit port held by another instance", async () => {
+    const ports = new PortAllocator(pool(46120, 10));
+    await ports.claim("a", { bindPort: 46120 });
+    const error = await conflict(ports.claim("b", { bindPort: 46120 }));
+    expect(error.details).toEqual({
+      errors: [
+        {
+          path: "bindPort",
+          message: "port 46120 is held by frps a (bindPort)",
+        },
+      ],
+    });
+  });
+
+  test("lets an instance keep its own ports", async () => {
+    const ports = new PortAllocator(pool(46130, 10));
+    await ports.claim("a", { bindPort: 46130 });
+    const config = await ports.claim("a", { bindPort: 46130 });
+    expect(config.bindPort).toBe(46130);
+  });
+
+  test("explicit ports collide with ranges that contain them", async () => {
+    const ports = new PortAllocator(pool(46140, 10));
+    ports.restore("a", {
+      bindPort: 46140,
+      allowPorts: [{ start: 46300, end: 46309 }],
+    });
+    const error = await conflict(
+      ports.claim("b", {
+        bindPort: 46141,
+        allowPorts: [{ single: 46305 }, { start: 46309, end: 46320 }],
+      })
+    );
+    expect(error.details).toEqual({
+      errors: [
+        {
+          path: "allowPorts[0]",
+          message: "port 46305 is held by frps a (allowPorts[0])",
+        },
+        {
+          path: "allowPorts[1]",
+          message: "port 46309-46320 is held by frps a (allowPorts[0])",
+        },
+      ],
+    });
+  });
+
+  test("tcp and udp listeners may share a port number", async () => {
+    const ports = new PortAllocator(pool(46340, 10));
+    ports.restore("a", { bindPort: 46340 });
+    const config = await ports.claim("b", {
+      bindPort: 46341,
+      kcpBindPort: 46340,
+    });
+    expect(config.kcpBindPort).toBe(46340);
+  });
+
+  test("assigns allowPorts ranges to the first gap that fits", async () => {
+    const ports = new PortAllocator(pool(46150, 10));
+    ports.restore("a", { bindPort: 46152 });
+    const config = await ports.claim("b", {
+      bindPort: "auto",
+      allowPorts: [{ auto: 3 }, { single: "auto" }, { start: 1, end: 2 }],
+    });
+    // bindPort takes 46150, which leaves 46151 alone before a's port
+    expect(config).toEqual({
+      bindPort: 46150,
+      allowPorts: [
+        { start: 46153, end: 46155 },
+        { single: 46151 },
+        { start: 1, end: 2 },
+      ],
+    });
+  });
+
+  test("reports an exhausted pool", async () => {
+    const ports = new PortAllocator(pool(46160, 1));
+    const error = await conflict(
+      ports.claim("a", { bindPort: "auto", vhostHTTPPort: "auto" })
+    );
+    expect(error.details).toEqual({
+      errors: [{ path: "vhostHTTPPort", message: "port pool exhausted" }],
+    });
+    // Nothing is held after a failed claim
+    expect(ports.holdings()).toEqual([]);
+  });
+
+  test("preview does not hold the ports", async () => {
+    const ports = new PortAllocator(pool(46170, 10));
+    const preview = await ports.preview({ bindPort: "auto" });
+    expect(preview.bindPort).toBe(46170);
+    expect(ports.holdings()).toEqual([]);
+  });
+
+  test("released ports are assigned again", async () => {
+    const ports = new PortAllocator(pool(46180, 10));
+    await ports.claim("a", { bindPort: "auto" });
+    ports.release("a");
+    const config = await ports.claim("b", { bindPort: "auto" });
+    expect(config.bindPort).toBe(46180);
+  });
+
+  test("concurrent claims never share an auto port", async () => {
+    const ports = new PortAllocator(pool(46190, 10));
+    const configs = await Promise.all(
+      ["a", "b", "c"].map((id) => ports.claim(id, { bindPort: "auto" }))
+    );
+    expect(configs.map((c) => c.bindPort)).toEqual([46190, 46191, 46192]);
+  });
+});
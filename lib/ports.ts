@@ -0,0 +1,268 @@
+import { createSocket } from "node:dgram";
+import { createServer } from "node:net";
+import { HttpError, type FieldError } from "./http.ts";
+import { isPlainObject, type JsonRecord } from "./toml.ts";
+
+type PortProtocol = "tcp" | "udp";
+
+// A port or port range an instance's config makes frps listen on
+type PortClaim = {
+  field: string;
+  start: number;
+  end: number;
+  protocols: PortProtocol[];
+};
+
+// Listener ports of the frps server options. bindPort is the only one
+// frps enables by default; the others are off while unset or 0.
+const PORT_FIELDS: Array<{
+  path: string[];
+  protocols: PortProtocol[];
+  defaultPort?: number;
+}> = [
+  { path: ["bindPort"], protocols: ["tcp"], defaultPort: 7000 },
+  { path: ["kcpBindPort"], protocols: ["udp"] },
+  { path: ["quicBindPort"], protocols: ["udp"] },
+  { path: ["vhostHTTPPort"], protocols: ["tcp"] },
+  { path: ["vhostHTTPSPort"], protocols: ["tcp"] },
+  { path: ["tcpmuxHTTPConnectPort"], protocols: ["tcp"] },
+  { path: ["webServer", "port"], protocols: ["tcp"] },
+  { path: ["sshTunnelGateway", "bindPort"], protocols: ["tcp"] },
+];
+
+export const AUTO_PORT = "auto";
+
+// Owns the node's port pool. Ports set to "auto" are assigned from the pool,
+// and explicit ports are checked against other instances and the host.
+export class PortAllocator {
+  private readonly pool: { start: number; end: number };
+  private readonly claims = new Map<string, PortClaim[]>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(pool: { start: number; end: number }) {
+    this.pool = pool;
+  }
+
+  holdings(): Array<PortClaim & { id: string }> {
+    return [...this.claims.entries()]
+      .flatMap(([id, claims]) => claims.map((c) => ({ id, ...c })))
+      .sort((a, b) => a.start - b.start);
+  }
+
+  poolRange() {
+    return { ...this.pool };
+  }
+
+  // Resolve "auto" ports and record the config's ports for the instance,
+  // replacing what it held before. Returns the config with ports filled in.
+  // Runs one at a time so two creates cannot pick the same free port.
+  claim(id: string, config: JsonRecord): Promise<JsonRecord> {
+    const run = this.queue.then(() => this.claimNow(id, config, true));
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  // Same checks and assignments as claim, without holding anything
+  preview(config: JsonRecord): Promise<JsonRecord> {
+    const run = this.queue.then(() => this.claimNow("", config, false));
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  // Record ports without checks, e.g. for recovered instances
+  restore(id: string, config: JsonRecord) {
+    this.claims.set(id, extractPortClaims(config));
+  }
+
+  release(id: string) {
+    this.claims.delete(id);
+  }
+
+  private async claimNow(
+    id: string,
+    config: JsonRecord,
+    record: boolean
+  ): Promise<JsonRecord> {
+    const resolved = structuredClone(config);
+    const own = this.claims.get(id) ?? [];
+    const others = this.holdings().filter((h) => h.id !== id);
+    const taken: PortClaim[] = [...others];
+    const errors: FieldError[] = [];
+
+    // Explicit ports first, so auto ports steer clear of them
+    for (const claim of extractPortClaims(resolved)) {
+      const holder = others.find((h) => claimsOverlap(h, claim));
+      if (holder) {
+        errors.push({
+          path: claim.field,
+          message: `port ${formatRange(claim)} is held by frps ${holder.id} (${
+            holder.field
+          })`,
+        });
+        continue;
+      }
+      // Listener ports must be free on the host, unless this instance is
+      // the one already bound to them
+      if (
+        claim.start === claim.end &&
+        !own.some((c) => claimsOverlap(c, claim)) &&
+        !(await isPortFree(claim.start, claim.protocols))
+      ) {
+        errors.push({
+          path: claim.field,
+          message: `port ${claim.start} is already in use on this host`,
+        });
+        continue;
+      }
+      taken.push(claim);
+    }
+
+    for (const { path: fieldPath, protocols } of PORT_FIELDS) {
+      const [parentKey, key] =
+        fieldPath.length === 1 ? [undefined, fieldPath[0]!] : fieldPath;
+      const parent = parentKey ? resolved[parentKey] : resolved;
+      if (!isPlainObject(parent) || parent[key!] !== AUTO_PORT) continue;
+      const field = fieldPath.join(".");
+      const port = await this.findFree(1, protocols, taken, true);
+      if (port === null) {
+        errors.push({ path: field, message: "port pool exhausted" });
+        continue;
+      }
+      parent[key!] = port;
+      taken.push({ field, start: port, end: port, protocols });
+    }
+
+    const allowPorts = resolved.allowPorts;
+    if (Array.isArray(allowPorts)) {
+      for (let i = 0; i < allowPorts.length; i++) {
+        const range = allowPorts[i];
+        if (!isPlainObject(range)) continue;
+        const count =
+          range.single === AUTO_PORT
+            ? 1
+            : typeof range.auto === "number"
+            ? range.auto
+            : 0;
+        if (count < 1) continue;
+        const field = `allowPorts[${i}]`;
+        const start = await this.findFree(count, ["tcp", "udp"], taken, false);
+        if (start === null) {
+          errors.push({ path: field, message: "port pool exhausted" });
+          continue;
+        }
+        const end = start + count - 1;
+        allowPorts[i] = count === 1 ? { single: start } : { start, end };
+        taken.push({ field, start, end, protocols: ["tcp", "udp"] });
+      }
+    }
+
+    if (errors.length > 0)
+      throw new HttpError(409, "port conflict", { errors });
+    if (record) this.claims.set(id, extractPortClaims(resolved));
+    return resolved;
+  }
+
+  // Lowest start of `count` consecutive pool ports that nobody holds. Single
+  // listener ports are also probed on the host; allowPorts ranges are only
+  // bound by frps on demand, so they are not.
+  private async findFree(
+    count: number,
+    protocols: PortProtocol[],
+    taken: PortClaim[],
+    probe: boolean
+  ): Promise<number | null> {
+    for (let start = this.pool.start; start + count - 1 <= this.pool.end; ) {
+      const candidate = { field: "", start, end: start + count - 1, protocols };
+      const blocker = taken.find((t) => claimsOverlap(t, candidate));
+      if (blocker) {
+        start = blocker.end + 1;
+        continue;
+      }
+      if (probe && !(await isPortFree(start, protocols))) {
+        start++;
+        continue;
+      }
+      return start;
+    }
+    return null;
+  }
+}
+
+function extractPortClaims(config: JsonRecord): PortClaim[] {
+  const claims: PortClaim[] = [];
+  for (const { path: fieldPath, protocols, defaultPort } of PORT_FIELDS) {
+    let value: unknown = config;
+    for (const key of fieldPath)
+      value = isPlainObject(value) ? value[key] : undefined;
+    const port = value === undefined ? defaultPort : value;
+    if (typeof port !== "number" || port <= 0) continue;
+    claims.push({
+      field: fieldPath.join("."),
+      start: port,
+      end: port,
+      protocols,
+    });
+  }
+  const allowPorts = config.allowPorts;
+  if (Array.isArray(allowPorts)) {
+    allowPorts.forEach((range, i) => {
+      if (!isPlainObject(range)) return;
+      const field = `allowPorts[${i}]`;
+      const protocols: PortProtocol[] = ["tcp", "udp"];
+      if (typeof range.single === "number") {
+        claims.push({
+          field,
+          start: range.single,
+          end: range.single,
+          protocols,
+        });
+      } else if (
+        typeof range.start === "number" &&
+        typeof range.end === "number"
+      ) {
+        claims.push({ field, start: range.start, end: range.end, protocols });
+      }
+    });
+  }
+  return claims;
+}
+
+function claimsOverlap(a: PortClaim, b: PortClaim): boolean {
+  return (
+    a.start <= b.end &&
+    b.start <= a.end &&
+    a.protocols.some((p) => b.protocols.includes(p))
+  );
+}
+
+function formatRange(claim: PortClaim): string {
+  return claim.start === claim.end
+    ? String(claim.start)
+    : `${claim.start}-${claim.end}`;
+}
+
+async function isPortFree(
+  port: number,
+  protocols: PortProtocol[]
+): Promise<boolean> {
+  for (const protocol of protocols) {
+    const free = await new Promise<boolean>((resolve) => {
+      if (protocol === "tcp") {
+        const srv = createServer();
+        srv.once("error", () => resolve(false));
+        srv.listen({ port, host: "0.0.0.0", exclusive: true }, () =>
+          srv.close(() => resolve(true))
+        );
+      } else {
+        const sock = createSocket("udp4");
+        sock.once("error", () => {
+          sock.close();
+          resolve(false);
+        });
+        sock.bind(port, "0.0.0.0", () => sock.close(() => resolve(true)));
+      }
+    });
+    if (!free) return false;
+  }
+  return true;
+}
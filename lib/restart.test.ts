@@ -0,0 +1,133 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_RESTART_OPTIONS,
+  newSupervisorState,
+  planRestart,
+  recordRestart,
+  type RestartOptions,
+} from "./restart.ts";
+
+const options = (overrides: Partial<RestartOptions>): RestartOptions => ({
+  ...DEFAULT_RESTART_OPTIONS,
+  ...overrides,
+});
+
+const crash = { failed: true, uptimeMs: 10 };
+
+describe("planRestart", () => {
+  test("never restarts with policy never", () => {
+    const supervisor = newSupervisorState();
+    expect(
+      planRestart(options({ policy: "never" }), supervisor, crash)
+    ).toEqual({ action: "none" });
+  });
+
+  test("on-failure ignores clean exits", () => {
+    const restart = options({ policy: "on-failure" });
+    const supervisor = newSupervisorState();
+    expect(
+      planRestart(restart, supervisor, { failed: false, uptimeMs: 10 })
+    ).toEqual({ action: "none" });
+    expect(planRestart(restart, supervisor, crash).action).toBe("restart");
+  });
+
+  test("always restarts clean exits", () => {
+    const decision = planRestart(
+      options({ policy: "always" }),
+      newSupervisorState(),
+      { failed: false, uptimeMs: 10 }
+    );
+    expect(decision).toEqual({ action: "restart", delayMs: 1000 });
+  });
+
+  test("doubles the delay per consecutive restart up to the maximum", () => {
+    const restart = options({
+      policy: "always",
+      backoffMs: 100,
+      maxBackoffMs: 1000,
+      maxRetries: 0,
+      crashLoopMaxRestarts: 100,
+    });
+    const supervisor = newSupervisorState();
+    const delays: number[] = [];
+    for (let i = 0; i < 6; i++) {
+      const decision = planRestart(restart, supervisor, crash, 1000 + i);
+      if (decision.action !== "restart") throw new Error(decision.action);
+      delays.push(decision.delayMs);
+      recordRestart(supervisor, 1000 + i);
+    }
+    expect(delays).toEqual([100, 200, 400, 800, 1000, 1000]);
+  });
+
+  test("gives up after maxRetries consecutive restarts", () => {
+    const restart = options({ policy: "always", maxRetries: 2 });
+    const supervisor = newSupervisorState();
+    for (let i = 0; i < 2; i++) {
+      expect(planRestart(restart, supervisor, crash, i).action).toBe("restart");
+      recordRestart(supervisor, i);
+    }
+    expect(planRestart(restart, supervisor, crash, 2)).toEqual({
+      action: "give-up",
+      reason: "gave up after 2 consecutive restarts",
+    });
+  });
+
+  test("a run longer than the crash-loop window resets the backoff", () => {
+    const restart = options({
+      policy: "always",
+      maxRetries: 2,
+      crashLoopWindowMs: 5000,
+    });
+    const supervisor = newSupervisorState();
+    recordRestart(supervisor, 0);
+    recordRestart(supervisor, 1);
+    expect(
+      planRestart(restart, supervisor, { failed: true, uptimeMs: 5000 }, 9000)
+    ).toEqual({ action: "restart", delayMs: 1000 });
+    expect(supervisor.consecutiveRestarts).toBe(0);
+  });
+
+  test("detects a crash loop within the window", () => {
+    const restart = options({
+      policy: "always",
+      maxRetries: 0,
+      crashLoopWindowMs: 10_000,
+      crashLoopMaxRestarts: 3,
+    });
+    const supervisor = newSupervisorState();
+    for (const t of [1000, 2000, 3000]) recordRestart(supervisor, t);
+    expect(planRestart(restart, supervisor, crash, 4000)).toEqual({
+      action: "give-up",
+      reason: "crash loop: 3 restarts within 10000ms",
+    });
+  });
+
+  test("forgets restarts that left the crash-loop window", () => {
+    const restart = options({
+      policy: "always",
+      maxRetries: 0,
+      crashLoopWindowMs: 10_000,
+      crashLoopMaxRestarts: 3,
+    });
+    const supervisor = newSupervisorState();
+    for (const t of [1000, 2000, 3000]) recordRestart(supervisor, t);
+    expect(planRestart(restart, supervisor, crash, 11_500).action).toBe(
+      "restart"
+    );
+    expect(supervisor.recentRestarts).toEqual([2000, 3000]);
+  });
+});
+
+describe("recordRestart", () => {
+  test("counts the restart and clears the pending retry", () => {
+    const supervisor = newSupervisorState();
+    supervisor.nextRetryAt = 500;
+    recordRestart(supervisor, 600);
+    expect(supervisor).toMatchObject({
+      restarts: 1,
+      consecutiveRestarts: 1,
+      recentRestarts: [600],
+      nextRetryAt: null,
+    });
+  });
+});
@@ -0,0 +1,109 @@
+// When the supervisor restarts an exited process:
+// - never: leave it exited
+// - on-failure: restart on a non-zero exit code or a signal
+// - always: restart on any exit that was not requested through the API
+export type RestartPolicy = "never" | "on-failure" | "always";
+
+export const RESTART_POLICIES: RestartPolicy[] = [
+  "never",
+  "on-failure",
+  "always",
+];
+
+export type RestartOptions = {
+  policy: RestartPolicy;
+  // Consecutive restarts before giving up, 0 for unlimited
+  maxRetries: number;
+  // Delay before the first retry, doubled on every consecutive retry
+  backoffMs: number;
+  maxBackoffMs: number;
+  // Giving up once crashLoopMaxRestarts restarts happen within the window.
+  // A run that lasts longer than the window also resets the backoff.
+  crashLoopWindowMs: number;
+  crashLoopMaxRestarts: number;
+};
+
+export const DEFAULT_RESTART_OPTIONS: RestartOptions = {
+  policy: "never",
+  maxRetries: 10,
+  backoffMs: 1000,
+  maxBackoffMs: 60000,
+  crashLoopWindowMs: 60000,
+  crashLoopMaxRestarts: 5,
+};
+
+export type SupervisorState = {
+  restarts: number;
+  consecutiveRestarts: number;
+  recentRestarts: number[];
+  lastExitReason: string | null;
+  nextRetryAt: number | null;
+  gaveUp: string | null;
+};
+
+export function newSupervisorState(): SupervisorState {
+  return {
+    restarts: 0,
+    consecutiveRestarts: 0,
+    recentRestarts: [],
+    lastExitReason: null,
+    nextRetryAt: null,
+    gaveUp: null,
+  };
+}
+
+export type RestartDecision =
+  | { action: "none" }
+  | { action: "give-up"; reason: string }
+  | { action: "restart"; delayMs: number };
+
+// Decide what the supervisor does after an exit. Resets the consecutive count
+// after a healthy run and drops restarts that left the crash-loop window.
+export function planRestart(
+  restart: RestartOptions,
+  supervisor: SupervisorState,
+  exit: { failed: boolean; uptimeMs: number },
+  now = Date.now()
+): RestartDecision {
+  if (restart.policy === "never") return { action: "none" };
+  if (restart.policy === "on-failure" && !exit.failed)
+    return { action: "none" };
+
+  // A run that outlived the crash-loop window counts as healthy
+  if (exit.uptimeMs >= restart.crashLoopWindowMs)
+    supervisor.consecutiveRestarts = 0;
+
+  if (
+    restart.maxRetries > 0 &&
+    supervisor.consecutiveRestarts >= restart.maxRetries
+  ) {
+    return {
+      action: "give-up",
+      reason: `gave up after ${supervisor.consecutiveRestarts} consecutive restarts`,
+    };
+  }
+
+  supervisor.recentRestarts = supervisor.recentRestarts.filter(
+    (t) => now - t < restart.crashLoopWindowMs
+  );
+  if (supervisor.recentRestarts.length >= restart.crashLoopMaxRestarts) {
+    return {
+      action: "give-up",
+      reason: `crash loop: ${supervisor.recentRestarts.length} restarts within ${restart.crashLoopWindowMs}ms`,
+    };
+  }
+
+  const delayMs = Math.min(
+    restart.maxBackoffMs,
+    restart.backoffMs * 2 ** supervisor.consecutiveRestarts
+  );
+  return { action: "restart", delayMs };
+}
+
+// Count a restart that is about to spawn the process again
+export function recordRestart(supervisor: SupervisorState, now = Date.now()) {
+  supervisor.nextRetryAt = null;
+  supervisor.restarts++;
+  supervisor.consecutiveRestarts++;
+  supervisor.recentRestarts.push(now);
+}
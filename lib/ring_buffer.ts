@@ -0,0 +1,29 @@
+export class RingBuffer<T> {
+  private readonly capacity: number;
+  private buffer: T[];
+  private index: number;
+  private filled: boolean;
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(10, Math.min(capacity, 10000));
+    this.buffer = new Array(this.capacity);
+    this.index = 0;
+    this.filled = false;
+  }
+
+  push(item: T) {
+    this.buffer[this.index] = item;
+    this.index = (this.index + 1) % this.capacity;
+    if (this.index === 0) this.filled = true;
+  }
+
+  toArray(limit?: number): T[] {
+    const data = this.filled
+      ? [...this.buffer.slice(this.index), ...this.buffer.slice(0, this.index)]
+      : this.buffer.slice(0, this.index);
+    if (typeof limit === "number" && limit > 0) {
+      return data.slice(Math.max(0, data.length - limit));
+    }
+    return data;
+  }
+}
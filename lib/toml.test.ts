@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { HttpError } from "./http.ts";
+import { generateToml, parseToml } from "./toml.ts";
+
+describe("generateToml", () => {
+  test("round-trips an frps config through the TOML parser", () => {
+    const config = {
+      bindAddr: "0.0.0.0",
+      bindPort: 7000,
+      vhostHTTPPort: 8080,
+      subDomainHost: "frps.example.com",
+      maxPortsPerClient: 0,
+      tcpmuxPassthrough: false,
+      auth: { method: "token", token: 'quote " and \\ backslash' },
+      webServer: { addr: "127.0.0.1", port: 7500, tls: { certFile: "a.crt" } },
+      allowPorts: [{ start: 2000, end: 3000 }, { single: 3001 }],
+      httpPlugins: [
+        { name: "login", addr: "127.0.0.1:9000", ops: ["Login"] },
+        { name: "new-proxy", addr: "127.0.0.1:9001", ops: ["NewProxy"] },
+      ],
+      "custom.key": { "needs quotes": ["x", "y"] },
+      metas: { labels: { env: "prod" } },
+    };
+    expect(parseToml(generateToml(config))).toEqual(config);
+  });
+
+  test("writes plain keys before sub-tables", () => {
+    expect(generateToml({ webServer: { port: 7500 }, bindPort: 7000 })).toBe(
+      "bindPort = 7000\n\n[webServer]\nport = 7500\n"
+    );
+  });
+
+  test("writes arrays of tables as [[tables]]", () => {
+    expect(generateToml({ httpPlugins: [{ name: "a" }, { name: "b" }] })).toBe(
+      '[[httpPlugins]]\nname = "a"\n\n[[httpPlugins]]\nname = "b"\n'
+    );
+  });
+
+  test("leaves out null and undefined values", () => {
+    expect(
+      parseToml(
+        generateToml({ bindPort: 7000, auth: null, webServer: undefined })
+      )
+    ).toEqual({ bindPort: 7000 });
+  });
+
+  test("rejects null inside arrays", () => {
+    expect(() => generateToml({ ops: ["Login", null] })).toThrow(
+      "config.ops.1: null cannot be represented in TOML"
+    );
+  });
+});
+
+describe("parseToml", () => {
+  test("rejects invalid TOML with a 400", () => {
+    let error: unknown;
+    try {
+      parseToml("bindPort = ");
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(400);
+    expect((error as HttpError).message).toStartWith("invalid TOML:");
+  });
+});
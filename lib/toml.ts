@@ -0,0 +1,100 @@
+import { HttpError } from "./http.ts";
+
+export type JsonRecord = Record<string, unknown>;
+
+export function isPlainObject(value: unknown): value is JsonRecord {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+// TOML serializer for structured configs. Nested objects become [tables],
+// arrays of objects become [[arrays of tables]] (e.g. [[httpPlugins]]), and
+// keys that are not bare are quoted. TOML has no null, so null or undefined
+// values are left out; inside arrays they are rejected.
+export function generateToml(config: JsonRecord): string {
+  const lines: string[] = [];
+  emitTomlTable(config, [], lines);
+  return lines.join("\n").trimStart() + "\n";
+}
+
+function emitTomlTable(table: JsonRecord, keyPath: string[], lines: string[]) {
+  const tables: [string, JsonRecord][] = [];
+  const tableArrays: [string, JsonRecord[]][] = [];
+
+  // Plain key/value pairs must precede any sub-table header
+  for (const [key, value] of Object.entries(table)) {
+    if (value === null || value === undefined) continue;
+    if (isPlainObject(value)) {
+      tables.push([key, value]);
+    } else if (
+      Array.isArray(value) &&
+      value.length > 0 &&
+      value.every(isPlainObject)
+    ) {
+      tableArrays.push([key, value as JsonRecord[]]);
+    } else {
+      lines.push(`${tomlKey(key)} = ${tomlValue(value, [...keyPath, key])}`);
+    }
+  }
+
+  for (const [key, value] of tables) {
+    const p = [...keyPath, key];
+    lines.push("", `[${p.map(tomlKey).join(".")}]`);
+    emitTomlTable(value, p, lines);
+  }
+  for (const [key, items] of tableArrays) {
+    const p = [...keyPath, key];
+    for (const item of items) {
+      lines.push("", `[[${p.map(tomlKey).join(".")}]]`);
+      emitTomlTable(item, p, lines);
+    }
+  }
+}
+
+function tomlKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+function tomlValue(value: unknown, keyPath: string[]): string {
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "boolean") return String(value);
+  if (typeof value === "number") {
+    if (Number.isNaN(value)) return "nan";
+    if (!Number.isFinite(value)) return value > 0 ? "inf" : "-inf";
+    return String(value);
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) {
+    return `[${value
+      .map((v, i) => tomlValue(v, [...keyPath, String(i)]))
+      .join(", ")}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).filter(
+      ([, v]) => v !== null && v !== undefined
+    );
+    if (entries.length === 0) return "{}";
+    return `{ ${entries
+      .map(([k, v]) => `${tomlKey(k)} = ${tomlValue(v, [...keyPath, k])}`)
+      .join(", ")} }`;
+  }
+  throw new HttpError(
+    400,
+    `config.${keyPath.join(".")}: ${
+      value === null ? "null" : typeof value
+    } cannot be represented in TOML`
+  );
+}
+
+export function parseToml(toml: string): JsonRecord {
+  try {
+    return Bun.TOML.parse(toml) as JsonRecord;
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    throw new HttpError(400, `invalid TOML: ${message}`);
+  }
+}
@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  settleAttempt,
+  signPayload,
+  WebhookDispatcher,
+  type WebhookDelivery,
+} from "./webhooks.ts";
+
+const delivery = (attempts: number, error: string | null): WebhookDelivery => ({
+  id: "dlv_1",
+  webhookId: "wh_1",
+  event: { id: "evt_1", type: "test", createdAt: 0, data: {} },
+  status: "pending",
+  attempts,
+  nextAttemptAt: 0,
+  lastAttemptAt: 0,
+  responseStatus: error === null ? 200 : 500,
+  error,
+});
+
+describe("signPayload", () => {
+  test("is the hex HMAC-SHA256 of timestamp.body", () => {
+    // echo -n '1700000000.{"a":1}' | openssl dgst -sha256 -hmac whsec_test
+    expect(signPayload("whsec_test", 1700000000, '{"a":1}')).toBe(
+      "38877139021993b830af32feea6e18a8da83eb2f6e49ee50bd9e4cf4ca4d3789"
+    );
+  });
+
+  test("changes with the timestamp, body and secret", () => {
+    const base = signPayload("s1", 1, "{}");
+    expect(signPayload("s1", 2, "{}")).not.toBe(base);
+    expect(signPayload("s1", 1, "{ }")).not.toBe(base);
+    expect(signPayload("s2", 1, "{}")).not.toBe(base);
+  });
+});
+
+describe("settleAttempt", () => {
+  test("marks a successful attempt delivered", () => {
+    const d = delivery(1, null);
+    settleAttempt(d, 1000);
+    expect(d.status).toBe("delivered");
+    expect(d.nextAttemptAt).toBeNull();
+  });
+
+  test("backs off between retries", () => {
+    const delays: number[] = [];
+    for (let attempts = 1; attempts <= 5; attempts++) {
+      const d = delivery(attempts, "HTTP 500");
+      settleAttempt(d, 1000);
+      expect(d.status).toBe("pending");
+      delays.push(d.nextAttemptAt! - 1000);
+    }
+    expect(delays).toEqual([10_000, 60_000, 300_000, 1_800_000, 7_200_000]);
+  });
+
+  test("fails the delivery after the last retry", () => {
+    const d = delivery(6, "HTTP 500");
+    settleAttempt(d, 1000);
+    expect(d.status).toBe("failed");
+    expect(d.nextAttemptAt).toBeNull();
+  });
+});
+
+describe("WebhookDispatcher", () => {
+  let dir: string | null = null;
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  test("refuses local URLs unless allowed", async () => {
+    dir = await mkdtemp(join(tmpdir(), "webhooks-"));
+    const webhooks = new WebhookDispatcher(join(dir, "webhooks.json"), {
+      userAgent: "test",
+      allowLocal: false,
+    });
+    await expect(
+      webhooks.create({ url: "http://127.0.0.1:9/hook", events: ["*"] })
+    ).rejects.toThrow("url resolves to local address 127.0.0.1");
+  });
+
+  test("delivers signed events to subscribed webhooks", async () => {
+    dir = await mkdtemp(join(tmpdir(), "webhooks-"));
+    let received: (req: { headers: Headers; body: string }) => void;
+    const request = new Promise<{ headers: Headers; body: string }>(
+      (resolve) => (received = resolve)
+    );
+    const receiver = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      async fetch(req) {
+        received({ headers: req.headers, body: await req.text() });
+        return new Response(null, { status: 204 });
+      },
+    });
+    try {
+      const webhooks = new WebhookDispatcher<"proxy.created">(
+        join(dir, "webhooks.json"),
+        { userAgent: "test", allowLocal: true }
+      );
+      const hook = await webhooks.create({
+        url: `http://127.0.0.1:${receiver.port}/hook`,
+        events: ["proxy.created"],
+      });
+      webhooks.emit("proxy.created", { id: "rp-a" });
+      const { headers, body } = await request;
+
+      const [, timestamp, signature] =
+        /^t=(\d+),v1=([0-9a-f]+)$/.exec(
+          headers.get("x-webhook-signature") ?? ""
+        ) ?? [];
+      expect(signature).toBe(signPayload(hook.secret, Number(timestamp), body));
+      expect(headers.get("x-webhook-event")).toBe("proxy.created");
+      expect(JSON.parse(body)).toMatchObject({
+        type: "proxy.created",
+        data: { id: "rp-a" },
+      });
+      // The outbox is saved once the attempt is recorded
+      while (webhooks.history(hook.id)[0]?.status !== "delivered")
+        await Bun.sleep(10);
+      await webhooks.stop();
+    } finally {
+      receiver.stop(true);
+    }
+  });
+});
@@ -0,0 +1,353 @@
+import { lookup } from "node:dns/promises";
+import { readFile } from "node:fs/promises";
+import { BlockList, isIP } from "node:net";
+import { randomToken } from "./api_keys.ts";
+import { HttpError, writeFileAtomic } from "./http.ts";
+
+export type Webhook<E extends string = string> = {
+  id: string;
+  url: string;
+  events: Array<E | "*">;
+  // HMAC-SHA256 key; only returned on creation
+  secret: string;
+  createdAt: number;
+};
+
+export type WebhookEvent<E extends string = string> = {
+  id: string;
+  type: E;
+  createdAt: number;
+  data: Record<string, unknown>;
+};
+
+const DELIVERY_STATUSES = ["pending", "delivered", "failed"] as const;
+
+export type WebhookDelivery<E extends string = string> = {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent<E>;
+  status: (typeof DELIVERY_STATUSES)[number];
+  attempts: number;
+  nextAttemptAt: number | null;
+  lastAttemptAt: number | null;
+  responseStatus: number | null;
+  error: string | null;
+};
+
+export type WebhookDispatcherOptions = {
+  // Sent as the user-agent of every delivery
+  userAgent: string;
+  // Deliver to loopback and link-local addresses, e.g. a local relay
+  allowLocal: boolean;
+};
+
+// Loopback, link-local and unspecified addresses. IPv4-mapped IPv6
+// addresses are checked against the IPv4 ranges.
+const LOCAL_ADDRESSES = new BlockList();
+LOCAL_ADDRESSES.addSubnet("127.0.0.0", 8, "ipv4");
+LOCAL_ADDRESSES.addSubnet("169.254.0.0", 16, "ipv4");
+LOCAL_ADDRESSES.addSubnet("0.0.0.0", 8, "ipv4");
+LOCAL_ADDRESSES.addAddress("::1", "ipv6");
+LOCAL_ADDRESSES.addAddress("::", "ipv6");
+LOCAL_ADDRESSES.addSubnet("fe80::", 10, "ipv6");
+
+// Wait before each retry; a delivery fails after the last one
+const WEBHOOK_RETRY_DELAYS_MS = [10_000, 60_000, 300_000, 1_800_000, 7_200_000];
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Finished deliveries kept per webhook
+const WEBHOOK_HISTORY = 100;
+
+// Hex HMAC-SHA256 of "<timestamp>.<body>", sent as v1 of the signature
+// header. Covering the timestamp means a captured request cannot be
+// replayed later with a fresh one.
+export function signPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  return new Bun.CryptoHasher("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+// Mark a delivery delivered, schedule its next retry, or fail it once the
+// retries are used up
+export function settleAttempt(d: WebhookDelivery, now = Date.now()) {
+  if (d.error === null) {
+    d.status = "delivered";
+    d.nextAttemptAt = null;
+    return;
+  }
+  const delay = WEBHOOK_RETRY_DELAYS_MS[d.attempts - 1];
+  if (delay === undefined) {
+    d.status = "failed";
+    d.nextAttemptAt = null;
+  } else {
+    d.nextAttemptAt = now + delay;
+  }
+}
+
+// Webhook subscriptions and their delivery outbox, in one JSON file.
+// Pending deliveries survive a restart and are retried with backoff.
+export class WebhookDispatcher<E extends string> {
+  private readonly webhooks = new Map<string, Webhook<E>>();
+  private deliveries: WebhookDelivery<E>[] = [];
+  private readonly inFlight = new Set<string>();
+  private readonly file: string;
+  private readonly options: WebhookDispatcherOptions;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(file: string, options: WebhookDispatcherOptions) {
+    this.file = file;
+    this.options = options;
+  }
+
+  async load() {
+    const raw = await readFile(this.file, "utf8").catch(() => null);
+    if (raw === null) return;
+    const data = JSON.parse(raw) as {
+      version: 1;
+      webhooks: Webhook<E>[];
+      deliveries: WebhookDelivery<E>[];
+    };
+    for (const hook of data.webhooks) this.webhooks.set(hook.id, hook);
+    this.deliveries = data.deliveries;
+  }
+
+  list(): Webhook<E>[] {
+    return Array.from(this.webhooks.values());
+  }
+
+  get(id: string): Webhook<E> | undefined {
+    return this.webhooks.get(id);
+  }
+
+  async create(input: Pick<Webhook<E>, "url" | "events">): Promise<Webhook<E>> {
+    const refused = await this.refusedTarget(input.url);
+    if (refused) throw new HttpError(400, `url ${refused}`);
+    const hook: Webhook<E> = {
+      id: `wh_${randomToken(9)}`,
+      url: input.url,
+      events: input.events,
+      secret: `whsec_${randomToken(24)}`,
+      createdAt: Date.now(),
+    };
+    this.webhooks.set(hook.id, hook);
+    await this.save();
+    return hook;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!this.webhooks.delete(id)) return false;
+    this.deliveries = this.deliveries.filter((d) => d.webhookId !== id);
+    await this.save();
+    return true;
+  }
+
+  // Newest first
+  history(webhookId: string): WebhookDelivery<E>[] {
+    return this.deliveries
+      .filter((d) => d.webhookId === webhookId)
+      .sort((a, b) => b.event.createdAt - a.event.createdAt);
+  }
+
+  // Queue the event for every webhook subscribed to it
+  emit(type: E, data: Record<string, unknown>) {
+    const event: WebhookEvent<E> = {
+      id: `evt_${randomToken(9)}`,
+      type,
+      createdAt: Date.now(),
+      data,
+    };
+    let queued = false;
+    for (const hook of this.webhooks.values()) {
+      if (!hook.events.includes("*") && !hook.events.includes(type)) continue;
+      this.deliveries.push({
+        id: `dlv_${randomToken(9)}`,
+        webhookId: hook.id,
+        event,
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: event.createdAt,
+        lastAttemptAt: null,
+        responseStatus: null,
+        error: null,
+      });
+      queued = true;
+    }
+    if (queued) void this.save().then(() => this.deliverDue());
+  }
+
+  start() {
+    this.timer = setInterval(() => void this.deliverDue(), 1000);
+  }
+
+  // Wait for the outbox to reach the disk before the process exits
+  async stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.saving;
+  }
+
+  // Why the manager will not call the URL, or null. Loopback and link-local
+  // targets would let a webhooks:admin key reach services on this host or
+  // the cloud metadata endpoint.
+  private async refusedTarget(url: string): Promise<string | null> {
+    if (this.options.allowLocal) return null;
+    const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+    let addresses: string[];
+    try {
+      addresses = isIP(host)
+        ? [host]
+        : (await lookup(host, { all: true })).map((a) => a.address);
+    } catch {
+      return `host ${host} does not resolve`;
+    }
+    const local = addresses.find((a) =>
+      LOCAL_ADDRESSES.check(a, isIP(a) === 4 ? "ipv4" : "ipv6")
+    );
+    return local ? `resolves to local address ${local}` : null;
+  }
+
+  private async deliverDue() {
+    const now = Date.now();
+    const due = this.deliveries.filter(
+      (d) =>
+        d.status === "pending" &&
+        d.nextAttemptAt !== null &&
+        d.nextAttemptAt <= now &&
+        !this.inFlight.has(d.id)
+    );
+    if (due.length === 0) return;
+    await Promise.all(due.map((d) => this.attempt(d)));
+    this.prune();
+    await this.save();
+  }
+
+  private async attempt(d: WebhookDelivery<E>) {
+    const hook = this.webhooks.get(d.webhookId);
+    if (!hook) return;
+    this.inFlight.add(d.id);
+    const body = JSON.stringify(d.event);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = signPayload(hook.secret, timestamp, body);
+    d.attempts += 1;
+    d.lastAttemptAt = Date.now();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+    try {
+      // Checked again on every attempt, since DNS may have changed since
+      // the webhook was created
+      const refused = await this.refusedTarget(hook.url);
+      if (refused) throw new Error(`url ${refused}`);
+      const res = await fetch(hook.url, {
+        method: "POST",
+        body,
+        headers: {
+          "content-type": "application/json",
+          "user-agent": this.options.userAgent,
+          "x-webhook-event": d.event.type,
+          "x-webhook-delivery": d.id,
+          "x-webhook-signature": `t=${timestamp},v1=${signature}`,
+        },
+        redirect: "manual",
+        signal: controller.signal,
+      });
+      await res.arrayBuffer().catch(() => null);
+      d.responseStatus = res.status;
+      d.error = res.ok ? null : `HTTP ${res.status}`;
+    } catch (e) {
+      d.responseStatus = null;
+      d.error = e instanceof Error ? e.message : String(e);
+    } finally {
+      clearTimeout(timer);
+      this.inFlight.delete(d.id);
+    }
+    settleAttempt(d);
+  }
+
+  private prune() {
+    const kept = new Map<string, number>();
+    this.deliveries = this.deliveries
+      .sort((a, b) => b.event.createdAt - a.event.createdAt)
+      .filter((d) => {
+        if (d.status === "pending") return true;
+        const n = (kept.get(d.webhookId) ?? 0) + 1;
+        kept.set(d.webhookId, n);
+        return n <= WEBHOOK_HISTORY;
+      });
+  }
+
+  // Writes are chained so an older snapshot never lands after a newer one
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .then(() => {
+        const data = {
+          version: 1,
+          webhooks: this.list(),
+          deliveries: this.deliveries,
+        };
+        return writeFileAtomic(this.file, JSON.stringify(data), 0o600);
+      })
+      .catch((e) => console.error("failed to save webhooks:", e));
+    return this.saving;
+  }
+}
+
+export function serializeWebhook(w: Webhook) {
+  const { secret, ...rest } = w;
+  return rest;
+}
+
+export function validateCreateWebhookBody<E extends string>(
+  body: any,
+  events: readonly E[]
+): Pick<Webhook<E>, "url" | "events"> {
+  if (!body || typeof body !== "object")
+    throw new HttpError(400, "body must be object");
+  let url: URL;
+  try {
+    url = new URL(body.url);
+  } catch {
+    throw new HttpError(400, "url must be an http(s) URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:")
+    throw new HttpError(400, "url must be an http(s) URL");
+  const requested: unknown = body.events ?? ["*"];
+  if (
+    !Array.isArray(requested) ||
+    requested.length === 0 ||
+    !requested.every((e) => e === "*" || events.includes(e))
+  )
+    throw new HttpError(
+      400,
+      `events must be a non-empty array of ${events.join(", ")} or "*"`
+    );
+  return {
+    url: url.toString(),
+    events: [...new Set(requested as Array<E | "*">)],
+  };
+}
+
+// ?status=failed&limit=50 on GET /webhooks/:id/deliveries
+export function parseDeliveriesQuery(url: URL): {
+  status: WebhookDelivery["status"] | null;
+  limit: number;
+} {
+  const status = url.searchParams.get("status") || null;
+  if (
+    status !== null &&
+    !DELIVERY_STATUSES.includes(status as WebhookDelivery["status"])
+  )
+    throw new HttpError(
+      400,
+      `status must be one of ${DELIVERY_STATUSES.join(", ")}`
+    );
+  const limit = Number(url.searchParams.get("limit") || 50);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 1000)
+    throw new HttpError(400, "limit must be integer 1..1000");
+  return { status: status as WebhookDelivery["status"] | null, limit };
+}